@@ -6,16 +6,20 @@ import terser from "@rollup/plugin-terser";
 export default [
   // Module builds (CJS and ESM)
   {
-    input: "src/index.ts",
+    input: { index: "src/index.ts", testing: "src/testing.ts" },
     output: [
       {
-        file: "dist/index.cjs.js",
+        dir: "dist",
+        entryFileNames: "[name].cjs.js",
+        chunkFileNames: "[name]-[hash].cjs.js",
         format: "cjs",
         exports: "named",
         sourcemap: true,
       },
       {
-        file: "dist/index.esm.js",
+        dir: "dist",
+        entryFileNames: "[name].esm.js",
+        chunkFileNames: "[name]-[hash].esm.js",
         format: "es",
         exports: "named",
         sourcemap: true,
@@ -0,0 +1 @@
+../../src/budget.ts
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { DefaultEventMap, EventMap } from "./abstract";
+import { Quanta, QuantaExpoType } from "./quanta";
+import {
+  ScreenTracking,
+  useQuanta,
+  useScreenTracking,
+} from "./useScreenTracking";
+
+/**
+ * Get Quanta and its hooks typed with an event catalog and screen IDs, so
+ * event names, arguments and screens are checked at compile time
+ */
+export function createQuanta<
+  Events extends EventMap = DefaultEventMap,
+  Screens extends string = string
+>() {
+  const typedUseQuanta: (
+    screenId: Screens,
+    args?: Record<string, string>
+  ) => void = useQuanta;
+  const typedUseScreenTracking: () => ScreenTracking<Screens> =
+    useScreenTracking;
+
+  return {
+    Quanta: Quanta as unknown as QuantaExpoType<Events>,
+    useQuanta: typedUseQuanta,
+    useScreenTracking: typedUseScreenTracking,
+  };
+}
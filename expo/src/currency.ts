@@ -0,0 +1 @@
+../../src/currency.ts
\ No newline at end of file
@@ -1,6 +1,37 @@
 import { Quanta } from "./quanta";
 
 export { useScreenTracking, useQuanta } from "./useScreenTracking";
+export type { ScreenTracking } from "./useScreenTracking";
+export { useAbTest } from "./useAbTest";
+export type { AbTestState } from "./useAbTest";
+export type {
+  ArgValue,
+  ConsentState,
+  DefaultEventMap,
+  EventArguments,
+  EventMap,
+  EventName,
+  EventTask,
+  NetworkAdapter,
+  PurchaseDetails,
+  QuantaConfig,
+  QuantaEvent,
+  QuantaPlugin,
+  QuantaSession,
+  StorageAdapter,
+  SubscriptionDetails,
+  SubscriptionPeriod,
+} from "./abstract";
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "./transport";
+export { fetchTransport } from "./transport";
+export { createQuanta } from "./createQuanta";
+export type { DropReason, EvictionPolicy } from "./queue";
+export type { RateProvider } from "./currency";
+export { isCurrencyCode } from "./currency";
 
 export { Quanta };
 export default Quanta;
@@ -7,10 +7,13 @@ import * as Device from "expo-device";
 import Constants from "expo-constants";
 import * as Localization from "expo-localization";
 import * as Application from "expo-application";
+import { AppState } from "react-native";
 // Import normally - our plugin will intercept this import
-import { AbstractQuantaBase } from "./abstract";
+import { AbstractQuantaBase, DefaultEventMap, EventMap } from "./abstract";
 
-class QuantaExpoType extends AbstractQuantaBase {
+export class QuantaExpoType<
+  Events extends EventMap = DefaultEventMap
+> extends AbstractQuantaBase<Events> {
   private _isTestFlight = false;
 
   init() {
@@ -37,6 +40,7 @@ class QuantaExpoType extends AbstractQuantaBase {
 
   makeAsyncStorage() {
     return {
+      name: "SecureStore",
       setItem: async (key: string, value: string) => {
         await SecureStore.setItemAsync(key, value);
       },
@@ -47,11 +51,22 @@ class QuantaExpoType extends AbstractQuantaBase {
     };
   }
 
+  protected setupExitListeners() {
+    // Backgrounding the app ends the session
+    AppState.addEventListener("change", (state) => {
+      if (state === "background") {
+        this.endSession().catch(console.error);
+      } else if (state === "active") {
+        this.touchSession().catch(console.error);
+      }
+    });
+  }
+
   setupUrlChangeListeners() {}
   async handleUrlChange() {}
 
   public async sendViewEvent() {
-    await this.logAsync("launch");
+    await this.logEventAsync("launch", 0, {});
   }
 
   getAppIdFromScriptTag(): string | null {
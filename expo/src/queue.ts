@@ -0,0 +1 @@
+../../src/queue.ts
\ No newline at end of file
@@ -0,0 +1 @@
+../../src/scrub.ts
\ No newline at end of file
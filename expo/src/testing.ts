@@ -0,0 +1 @@
+../../src/testing.ts
\ No newline at end of file
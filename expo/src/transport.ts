@@ -0,0 +1 @@
+../../src/transport.ts
\ No newline at end of file
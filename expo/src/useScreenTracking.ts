@@ -209,7 +209,12 @@ const handleAppStateChange = (nextState: AppStateStatus) => {
   appState.current = nextState;
 };
 
-export const useScreenTracking = () => ({
+export interface ScreenTracking<Screens extends string = string> {
+  startScreenView: (screenId: Screens, args?: Record<string, string>) => string;
+  endScreenView: (handle: string) => void;
+}
+
+export const useScreenTracking = (): ScreenTracking => ({
   startScreenView,
   endScreenView,
 });
@@ -0,0 +1,61 @@
+import { watchAutocapture } from "../../src/autocapture";
+
+describe("watchAutocapture", () => {
+  let captured: [string, Record<string, string>][];
+  let unwatch: () => void;
+
+  beforeEach(() => {
+    captured = [];
+    unwatch = watchAutocapture(document, (event, args) =>
+      captured.push([event, args])
+    );
+  });
+
+  afterEach(() => {
+    unwatch();
+    document.body.innerHTML = "";
+  });
+
+  test("logs clicks with arguments", () => {
+    document.body.innerHTML = `
+      <button data-quanta-event="signup_click" data-quanta-arg-plan="pro"
+        data-quanta-arg-billing-cycle="yearly"><span>Sign up</span></button>
+      <button>Untracked</button>`;
+
+    document.querySelector("span")!.click();
+    document.querySelectorAll("button")[1].click();
+
+    expect(captured).toEqual([
+      ["signup_click", { plan: "pro", billing_cycle: "yearly" }],
+    ]);
+  });
+
+  test("logs form submits", () => {
+    document.body.innerHTML = `
+      <form data-quanta-event="newsletter" data-quanta-arg-list="weekly">
+        <button type="submit">Subscribe</button>
+      </form>`;
+
+    document
+      .querySelector("form")!
+      .dispatchEvent(new Event("submit", { bubbles: true, cancelable: true }));
+    document.querySelector("button")!.dispatchEvent(new Event("click"));
+
+    expect(captured).toEqual([["newsletter", { list: "weekly" }]]);
+  });
+
+  test("skips ignored elements", () => {
+    document.body.innerHTML = `
+      <div data-quanta-ignore>
+        <button data-quanta-event="hidden">Hidden</button>
+      </div>
+      <div data-quanta-event="card">
+        <a data-quanta-ignore>Details</a>
+      </div>`;
+
+    document.querySelector("button")!.click();
+    document.querySelector("a")!.click();
+
+    expect(captured).toEqual([]);
+  });
+});
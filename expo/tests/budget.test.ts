@@ -0,0 +1,53 @@
+import { fitArguments, joinArguments } from "../src/budget";
+
+const rank = (ranks: Record<string, number>) => (key: string) =>
+  ranks[key] ?? 0;
+
+describe("fitArguments", () => {
+  test("keeps arguments that fit", () => {
+    const args = { plan: "pro", seats: "3" };
+    expect(fitArguments(args, 200, rank({}))).toEqual({
+      argString: joinArguments(args),
+      shortened: [],
+      dropped: [],
+    });
+  });
+
+  test("shortens the lowest ranked long value with an ellipsis", () => {
+    const path = `/blog/${"a".repeat(100)}`;
+    const result = fitArguments(
+      { path, referrer: "https://example.com/" },
+      60,
+      rank({ path: -1 })
+    );
+
+    expect(result.argString.length).toBeLessThanOrEqual(60);
+    expect(result.shortened).toEqual(["path"]);
+    expect(result.dropped).toEqual([]);
+    const [, value] = result.argString.split("\u001F");
+    expect(value.endsWith("…")).toBe(true);
+    expect(result.argString).toContain("referrer\u001Fhttps://example.com/");
+  });
+
+  test("drops whole pairs instead of cutting them in half", () => {
+    const args = { a: "1234567890", b: "1234567890", c: "1234567890" };
+    const result = fitArguments(args, 30, rank({ b: -1 }));
+
+    expect(result.dropped).toEqual(["b"]);
+    expect(result.argString).toBe(joinArguments({ a: args.a, c: args.c }));
+  });
+
+  test("drops pairs in their own order", () => {
+    const path = `/blog/${"a".repeat(100)}`;
+    const result = fitArguments(
+      { path, utm_source: "newsletter", plan: "pro" },
+      40,
+      rank({ path: -2 }),
+      rank({ path: 1 })
+    );
+
+    expect(result.shortened).toEqual(["path"]);
+    expect(result.dropped).toEqual(["utm_source"]);
+    expect(result.argString).toContain("plan\u001Fpro");
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  decodeLinkParam,
+  encodeLinkParam,
+  isLinkDomain,
+} from "../../src/linker";
+
+describe("link parameter", () => {
+  const id = "AAAAAAAAAAAAAAAAAAAAAA";
+  const time = 1700000000;
+
+  test("round-trips the ID", () => {
+    const value = encodeLinkParam(id, time, "Firefox");
+    expect(value).toMatch(/^AAAAAAAAAAAAAAAAAAAAAA\.1700000000\.[0-9a-z]+$/);
+    expect(decodeLinkParam(value, time + 30, "Firefox")).toBe(id);
+  });
+
+  test("rejects expired, mangled and foreign links", () => {
+    const value = encodeLinkParam(id, time, "Firefox");
+    expect(decodeLinkParam(value, time + 3600, "Firefox")).toBeNull();
+    expect(decodeLinkParam(value, time, "Safari")).toBeNull();
+    expect(
+      decodeLinkParam(value.replace("AAAA", "BBBB"), time, "Firefox")
+    ).toBeNull();
+    expect(decodeLinkParam("garbage", time, "Firefox")).toBeNull();
+  });
+
+  test("rejects IDs that aren't Quanta IDs", () => {
+    for (const malformed of [
+      "\u001Efoo",
+      "a".repeat(500),
+      "AAAA AAAAAAAAAAAAAAAAA",
+    ]) {
+      const value = encodeLinkParam(malformed, time, "Firefox");
+      expect(decodeLinkParam(value, time, "Firefox")).toBeNull();
+    }
+  });
+
+  test("matches domains and their subdomains", () => {
+    const domains = ["example.net", ".checkout.io"];
+    expect(isLinkDomain("example.net", domains)).toBe(true);
+    expect(isLinkDomain("pay.EXAMPLE.net", domains)).toBe(true);
+    expect(isLinkDomain("eu.checkout.io", domains)).toBe(true);
+    expect(isLinkDomain("badexample.net", domains)).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createQuanta } from "../../src/node";
+import { TransportRequest } from "../src/transport";
+
+const RECORD_SEPARATOR = "\u001E";
+
+const makeTransport = () => {
+  const requests: TransportRequest[] = [];
+  const transport = {
+    send: async (request: TransportRequest) => {
+      requests.push(request);
+      return {
+        ok: true,
+        status: 200,
+        headers: { get: () => null },
+        text: async () => "",
+      };
+    },
+  };
+  return { requests, transport };
+};
+
+describe("QuantaNodeType", () => {
+  test("logs events for the given user", async () => {
+    const { requests, transport } = makeTransport();
+    const quanta = createQuanta({ device: "Server", os: "Linux" });
+    await quanta.initializeAsync("app", true, { transport });
+
+    await quanta.logForUserAsync(
+      { id: "abcdefghijklmnopqrstuv", device: "iPhone", version: "2.1.0" },
+      "renewal",
+      { plan: "pro" }
+    );
+    await quanta.logForUserAsync("vutsrqponmlkjihgfedcba", "webhook");
+    await quanta.shutdown();
+
+    const events = requests.map((request) =>
+      (request.body ?? "").split(RECORD_SEPARATOR)
+    );
+    expect(events).toHaveLength(2);
+    expect(events[0][2]).toBe("renewal");
+    expect(events[0][4]).toContain("plan");
+    expect(events[0].slice(5, 8)).toEqual([
+      "abcdefghijklmnopqrstuv",
+      "iPhone",
+      "Linux",
+    ]);
+    expect(events[0][10]).toBe("2.1.0");
+    expect(events[1].slice(5, 7)).toEqual(["vutsrqponmlkjihgfedcba", "Server"]);
+    expect(quanta.getId()).not.toBe("abcdefghijklmnopqrstuv");
+  });
+
+  test("keeps storage in a file and stops after shutdown", async () => {
+    const storagePath = join(mkdtempSync(join(tmpdir(), "quanta-")), "q.json");
+    const { requests, transport } = makeTransport();
+    const quanta = createQuanta({ storagePath });
+    await quanta.initializeAsync("app", true, { transport });
+
+    await quanta.purchaseForUserAsync("abcdefghijklmnopqrstuv", {
+      amount: 4.99,
+      currency: "USD",
+    });
+    await quanta.shutdown();
+    await quanta.logForUserAsync("abcdefghijklmnopqrstuv", "ignored");
+
+    expect(requests).toHaveLength(1);
+    const stored = JSON.parse(readFileSync(storagePath, "utf8"));
+    expect(stored["tools.quanta.id"]).toBe(quanta.getId());
+
+    const restarted = createQuanta({ storagePath });
+    await restarted.initializeAsync("app", true, { transport });
+    expect(restarted.getId()).toBe(quanta.getId());
+  });
+
+  test("doesn't keep the process alive with retries after shutdown", async () => {
+    const transport = {
+      send: jest.fn(async () => ({
+        ok: false,
+        status: 500,
+        headers: { get: () => null },
+        text: async () => "",
+      })),
+    };
+    const quanta = createQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+
+    await quanta.logForUserAsync("abcdefghijklmnopqrstuv", "webhook");
+    await quanta.shutdown(200);
+
+    const timers = (quanta as unknown as { _timers: NodeJS.Timeout[] })._timers;
+    expect(transport.send).toHaveBeenCalled();
+    expect(timers.length).toBeGreaterThan(0);
+    expect(timers.every((timer) => !timer.hasRef())).toBe(true);
+  });
+});
@@ -0,0 +1,888 @@
+import {
+  AbstractQuantaBase,
+  ConsentState,
+  DefaultEventMap,
+  EventMap,
+  EventTask,
+  SharedIdentity,
+} from "../src/abstract";
+import { TransportRequest, TransportResponse } from "../src/transport";
+import { EventQueue } from "../src/queue";
+
+const GROUP_SEPARATOR = "\u001D";
+
+class TestQuanta<
+  Events extends EventMap = DefaultEventMap
+> extends AbstractQuantaBase<Events> {
+  // Most tests count requests, session events are tested separately
+  protected _sessionEvents = false;
+
+  makeAsyncStorage() {
+    const items: Record<string, string> = {};
+    return {
+      getItem: async (key: string) => items[key] ?? null,
+      setItem: async (key: string, value: string) => {
+        items[key] = value;
+      },
+    };
+  }
+  setupUrlChangeListeners() {}
+  async handleUrlChange() {}
+  async sendViewEvent() {}
+  parseScriptTagAttributes() {}
+  getAppIdFromScriptTag() {
+    return null;
+  }
+  isServerSide() {
+    return false;
+  }
+  systemLanguageProvider() {
+    return "en-US";
+  }
+  getBundleId() {
+    return "tools.quanta.test";
+  }
+  getVersion() {
+    return "1.0.0";
+  }
+  getDeviceInfo() {
+    return "Test";
+  }
+  getOSInfo() {
+    return "TestOS";
+  }
+  getDebugFlags() {
+    return 0;
+  }
+}
+
+const makeTransport = (
+  respond: (
+    request: TransportRequest
+  ) => Partial<TransportResponse> = () => ({})
+) => {
+  const requests: TransportRequest[] = [];
+  const transport = {
+    send: jest.fn(async (request: TransportRequest) => {
+      requests.push(request);
+      const headers: Record<string, string> = {};
+      return {
+        ok: true,
+        status: 200,
+        headers: { get: (name: string) => headers[name] ?? null },
+        text: async () => "",
+        ...respond(request),
+      };
+    }),
+  };
+  return { transport, requests };
+};
+
+const queue = (quanta: TestQuanta) =>
+  (quanta as unknown as { _queue: { event: string }[] })._queue;
+
+const processQueue = (quanta: TestQuanta) =>
+  (quanta as unknown as { processQueue(): Promise<void> }).processQueue();
+
+// Delivery runs in the background, wait until it is done
+const flush = async (quanta: TestQuanta) => {
+  const state = quanta as unknown as { _isProcessing: boolean };
+  do {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  } while (state._isProcessing);
+};
+
+const enqueueOffline = async (quanta: TestQuanta, events: string[]) => {
+  // Mark as processing so the events stay in the queue
+  (quanta as unknown as { _isProcessing: boolean })._isProcessing = true;
+  for (const event of events) {
+    await quanta.logAsync(event);
+  }
+  (quanta as unknown as { _isProcessing: boolean })._isProcessing = false;
+};
+
+describe("transport", () => {
+  test("sends events to the configured ingress", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, {
+      transport,
+      ingressUrl: "https://proxy.example.com/quanta/",
+    });
+
+    await quanta.logAsync("signup");
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("https://proxy.example.com/quanta/ee/");
+    expect(requests[0].body).toContain("signup");
+  });
+});
+
+describe("batching", () => {
+  test("packs queued events into batch requests", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport, maxBatchSize: 2 });
+    requests.length = 0;
+
+    await enqueueOffline(quanta, ["alpha", "beta", "gamma"]);
+    await processQueue(quanta);
+
+    expect(requests.map((request) => request.url)).toEqual([
+      "https://analytics-ingress.quanta.tools/eb/",
+      "https://analytics-ingress.quanta.tools/ee/",
+    ]);
+    expect(requests[0].body!.split(GROUP_SEPARATOR)).toHaveLength(2);
+    expect(queue(quanta)).toHaveLength(0);
+  });
+
+  test("respects the byte budget", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, {
+      transport,
+      maxBatchBytes: 10,
+    });
+    requests.length = 0;
+
+    await enqueueOffline(quanta, ["alpha", "beta"]);
+    await processQueue(quanta);
+
+    expect(requests.map((request) => request.url)).toEqual([
+      "https://analytics-ingress.quanta.tools/ee/",
+      "https://analytics-ingress.quanta.tools/ee/",
+    ]);
+  });
+
+  test("keeps rejected events for retry", async () => {
+    let attempt = 0;
+    const { transport, requests } = makeTransport(() => {
+      attempt++;
+      return {
+        headers: {
+          get: (name: string) =>
+            name === "X-Rejected" && attempt === 1 ? "1" : null,
+        },
+      };
+    });
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+    requests.length = 0;
+
+    await enqueueOffline(quanta, ["alpha", "beta", "gamma"]);
+    await processQueue(quanta);
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].url).toBe("https://analytics-ingress.quanta.tools/ee/");
+    expect(requests[1].body).toContain("beta");
+    expect(queue(quanta)).toHaveLength(0);
+  });
+});
+
+describe("page unload", () => {
+  const flushOnExit = (quanta: TestQuanta) => {
+    const bodies: string[] = [];
+    (
+      quanta as unknown as {
+        flushOnExit(send: (url: string, body: string) => boolean): void;
+      }
+    ).flushOnExit((_url, body) => {
+      bodies.push(body);
+      return true;
+    });
+    return bodies;
+  };
+  const tasks = (quanta: TestQuanta) =>
+    (quanta as unknown as { _queue: { tasks: EventTask[] } })._queue.tasks;
+
+  test("beacons pending events and doesn't send them again", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+    await enqueueOffline(quanta, ["alpha", "beta"]);
+
+    const bodies = flushOnExit(quanta);
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0].split(GROUP_SEPARATOR)).toHaveLength(2);
+
+    await processQueue(quanta);
+    expect(requests).toHaveLength(0);
+    expect(tasks(quanta)).toHaveLength(0);
+  });
+
+  test("keeps events while offline and events that failed", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+    await enqueueOffline(quanta, ["alpha", "beta"]);
+
+    (quanta as unknown as { _online: boolean })._online = false;
+    expect(flushOnExit(quanta)).toHaveLength(0);
+
+    (quanta as unknown as { _online: boolean })._online = true;
+    tasks(quanta)[0].failures = 1;
+    const bodies = flushOnExit(quanta);
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0]).toContain("beta");
+    expect(bodies[0]).not.toContain("alpha");
+
+    await processQueue(quanta);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toContain("alpha");
+  });
+});
+
+describe("consent", () => {
+  test("buffers events in memory until consent is granted", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, {
+      transport,
+      requireConsent: true,
+    });
+
+    await quanta.logAsync("signup");
+
+    expect(requests).toHaveLength(0);
+    expect(await quanta.asyncStorage.getItem("tools.quanta.id")).toBeNull();
+    expect(
+      await quanta.asyncStorage.getItem("tools.quanta.queue.tasks")
+    ).toBeNull();
+
+    await quanta.setConsentAsync("granted");
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toContain("signup");
+    expect(await quanta.asyncStorage.getItem("tools.quanta.id")).toBe(
+      quanta.getId()
+    );
+  });
+
+  test("hands buffered events to the leader when consent is granted", async () => {
+    const handedOff: EventTask[] = [];
+    class FollowerQuanta extends TestQuanta {
+      protected isQueueLeader() {
+        return false;
+      }
+      protected handOffEvents(tasks: EventTask[]) {
+        handedOff.push(...tasks);
+        return true;
+      }
+    }
+    const { transport, requests } = makeTransport();
+    const quanta = new FollowerQuanta();
+    await quanta.initializeAsync("app", true, {
+      transport,
+      requireConsent: true,
+    });
+
+    await quanta.logAsync("signup");
+    await quanta.setConsentAsync("granted");
+
+    expect(handedOff.map((task) => task.event)).toEqual(["signup"]);
+    expect(queue(quanta)).toHaveLength(0);
+    expect(requests).toHaveLength(0);
+  });
+
+  test("applies consent granted in another tab", async () => {
+    class TabQuanta extends TestQuanta {
+      peer: TabQuanta | null = null;
+      constructor(private leader: boolean) {
+        super();
+      }
+      protected isQueueLeader() {
+        return this.leader;
+      }
+      protected handOffEvents(tasks: EventTask[]) {
+        this.peer!.receiveEvents(tasks).catch(console.error);
+        return true;
+      }
+      protected shareConsent(consent: ConsentState) {
+        // Consent can reach the other tab after the events
+        setTimeout(() => {
+          this.peer!.receiveConsent(consent).catch(console.error);
+        }, 10);
+      }
+    }
+    const { transport, requests } = makeTransport();
+    const leader = new TabQuanta(true);
+    const follower = new TabQuanta(false);
+    leader.peer = follower;
+    follower.peer = leader;
+    for (const quanta of [leader, follower]) {
+      await quanta.initializeAsync("app", true, {
+        transport,
+        requireConsent: true,
+      });
+    }
+
+    await leader.logAsync("alpha");
+    await follower.logAsync("beta");
+    await follower.setConsentAsync("granted");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await flush(leader);
+
+    expect(leader.getConsent()).toBe("granted");
+    const events = requests.flatMap((request) =>
+      request
+        .body!.split(GROUP_SEPARATOR)
+        .map((record) => record.split("\u001E")[2])
+    );
+    expect(events.sort()).toEqual(["alpha", "beta"]);
+  });
+
+  test("drops events when consent is denied", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, {
+      transport,
+      requireConsent: true,
+    });
+
+    await quanta.logAsync("signup");
+    await quanta.setConsentAsync("denied");
+    await quanta.logAsync("purchase");
+
+    expect(requests).toHaveLength(0);
+    expect(queue(quanta)).toHaveLength(0);
+    expect(await quanta.asyncStorage.getItem("tools.quanta.consent")).toBe(
+      "denied"
+    );
+  });
+});
+
+describe("identity", () => {
+  const knownId = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+
+  test("links the anonymous ID when identifying", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+    const anonymousId = quanta.getId();
+
+    await quanta.identifyAsync(knownId);
+
+    expect(quanta.getId()).not.toBe(anonymousId);
+    expect(quanta.getId()).toHaveLength(22);
+    expect(requests[0].body).toContain(
+      `link\u001E0\u001Eanonymous_id\u001F${anonymousId}`
+    );
+    expect(await quanta.asyncStorage.getItem("tools.quanta.knownId")).toBe(
+      quanta.getId()
+    );
+  });
+
+  test("starts over with a fresh ID on reset", async () => {
+    const { transport } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+    await quanta.identifyAsync(knownId);
+    quanta.register({ plan: "pro" });
+    const identifiedId = quanta.getId();
+
+    await quanta.resetAsync();
+
+    expect(quanta.getId()).not.toBe(identifiedId);
+    expect(quanta.getSuperProperties()).toEqual({});
+    expect(await quanta.asyncStorage.getItem("tools.quanta.knownId")).toBe("");
+    expect(await quanta.asyncStorage.getItem("tools.quanta.id")).toBe(
+      quanta.getId()
+    );
+  });
+
+  test("shares the ID with sites of the same domain", async () => {
+    let shared: SharedIdentity | null = {
+      id: "AAAAAAAAAAAAAAAAAAAAAA",
+      installDate: 1700000000,
+    };
+    class SharedQuanta extends TestQuanta {
+      protected loadSharedIdentity() {
+        return shared;
+      }
+      protected saveSharedIdentity(identity: SharedIdentity | null) {
+        shared = identity;
+      }
+    }
+    const { transport } = makeTransport();
+    const quanta = new SharedQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+
+    expect(quanta.getId()).toBe("AAAAAAAAAAAAAAAAAAAAAA");
+    expect(await quanta.asyncStorage.getItem("tools.quanta.id")).toBe(
+      "AAAAAAAAAAAAAAAAAAAAAA"
+    );
+
+    await quanta.identifyAsync(knownId);
+    expect(shared).toEqual({ id: quanta.getId(), installDate: 1700000000 });
+
+    await quanta.setConsentAsync("denied");
+    expect(shared).toBeNull();
+  });
+
+  test("adopts the ID of a linked site", async () => {
+    class LinkedQuanta extends TestQuanta {
+      protected takeLinkedId() {
+        return "AAAAAAAAAAAAAAAAAAAAAA";
+      }
+    }
+    const { transport } = makeTransport();
+    const quanta = new LinkedQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+
+    expect(quanta.getId()).toBe("AAAAAAAAAAAAAAAAAAAAAA");
+    expect(await quanta.asyncStorage.getItem("tools.quanta.id")).toBe(
+      "AAAAAAAAAAAAAAAAAAAAAA"
+    );
+  });
+
+  test("keeps the known ID when linked", async () => {
+    class LinkedQuanta extends TestQuanta {
+      makeAsyncStorage() {
+        const storage = super.makeAsyncStorage();
+        storage.setItem("tools.quanta.knownId", "BBBBBBBBBBBBBBBBBBBBBB");
+        return storage;
+      }
+      protected takeLinkedId() {
+        return "AAAAAAAAAAAAAAAAAAAAAA";
+      }
+    }
+    const { transport } = makeTransport();
+    const quanta = new LinkedQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+
+    expect(quanta.getId()).toBe("BBBBBBBBBBBBBBBBBBBBBB");
+  });
+
+  test("doesn't share the ID without consent", async () => {
+    let shared: SharedIdentity | null = null;
+    class SharedQuanta extends TestQuanta {
+      protected saveSharedIdentity(identity: SharedIdentity | null) {
+        shared = identity;
+      }
+    }
+    const { transport } = makeTransport();
+    const quanta = new SharedQuanta();
+    await quanta.initializeAsync("app", true, {
+      transport,
+      requireConsent: true,
+    });
+    expect(shared).toBeNull();
+
+    await quanta.setConsentAsync("granted");
+    expect(shared).toEqual({
+      id: quanta.getId(),
+      installDate: expect.any(Number),
+    });
+  });
+});
+
+describe("sessions", () => {
+  test("starts a new session after the inactivity timeout", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, {
+      transport,
+      sessionEvents: true,
+      sessionTimeout: 1000,
+    });
+
+    await quanta.logAsync("alpha");
+    const first = quanta.getSession()!;
+    expect(first.count).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    expect(quanta.getSession()).toBeNull();
+    await quanta.logAsync("beta");
+    await flush(quanta);
+
+    expect(quanta.getSession()!.count).toBe(2);
+    expect(quanta.getSession()!.id).not.toBe(first.id);
+    // Events queued together may share a batch request
+    const events = requests.flatMap((request) =>
+      request
+        .body!.split(GROUP_SEPARATOR)
+        .map((record) => record.split("\u001E")[2])
+    );
+    expect(events).toEqual([
+      "session_start",
+      "alpha",
+      "session_end",
+      "session_start",
+      "beta",
+    ]);
+    expect(requests[2].body).toContain(
+      `duration\u001F0\u001Fsession\u001F1\u001Fsession_id\u001F${first.id}`
+    );
+  });
+  test("continues the stored session for events logged during init", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    const stored = {
+      id: "previous",
+      start: Date.now() - 60 * 1000,
+      lastActivity: Date.now() - 500,
+      count: 7,
+    };
+    await quanta.asyncStorage.setItem(
+      "tools.quanta.session",
+      JSON.stringify(stored)
+    );
+
+    const initialized = quanta.initializeAsync("app", true, {
+      transport,
+      sessionEvents: true,
+    });
+    await quanta.logAsync("alpha");
+    await initialized;
+    await flush(quanta);
+
+    expect(quanta.getSession()!.count).toBe(7);
+    expect(quanta.getSession()!.id).toBe("previous");
+    const events = requests.map((request) => request.body!.split("\u001E")[2]);
+    expect(events).toEqual(["alpha"]);
+    expect(requests[0].body!.split("\u001E")[5]).toBe(quanta.getId());
+  });
+});
+
+describe("revenue", () => {
+  const fields = (body: string) => body.split("\u001E");
+
+  test("converts purchases to the reporting currency", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, {
+      transport,
+      reportingCurrency: "USD",
+      rateProvider: { getRate: async () => 1.1 },
+    });
+
+    await quanta.purchaseAsync({
+      amount: 10,
+      currency: "eur",
+      productId: "pro",
+      quantity: 2,
+    });
+    await quanta.refundAsync({ amount: 5, currency: "USD" });
+    await flush(quanta);
+
+    expect(fields(requests[0].body!).slice(2, 5)).toEqual([
+      "purchase",
+      "22",
+      "amount\u001F20\u001Fcurrency\u001FEUR\u001Fproduct\u001Fpro\u001Fquantity\u001F2",
+    ]);
+    expect(fields(requests[1].body!).slice(2, 4)).toEqual(["refund", "-5"]);
+  });
+
+  test("rejects unknown currency codes", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+
+    await quanta.subscriptionAsync({
+      amount: 9.99,
+      currency: "EURO",
+      period: "month",
+    });
+
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe("plugins", () => {
+  test("rewrites and drops events before they are queued", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    const onSendSuccess = jest.fn();
+    quanta.use({
+      beforeSend: async (event) =>
+        event.event === "internal" ? null : { ...event, event: "renamed" },
+      onSendSuccess,
+    });
+    await quanta.initializeAsync("app", true, { transport });
+
+    await quanta.logAsync("internal");
+    await quanta.logAsync("legacy");
+    await flush(quanta);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toContain("renamed");
+    expect(onSendSuccess).toHaveBeenCalledWith([
+      expect.objectContaining({ event: "renamed" }),
+    ]);
+  });
+});
+
+describe("connectivity", () => {
+  test("pauses delivery while offline and resumes when back online", async () => {
+    const { transport, requests } = makeTransport();
+    let notify = (_online: boolean) => {};
+    const network = {
+      isOnline: async () => false,
+      subscribe: (listener: (online: boolean) => void) => {
+        notify = listener;
+        return () => {};
+      },
+    };
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport, network });
+
+    // Logging doesn't wait for the network
+    await quanta.logAsync("offline_event");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(requests).toHaveLength(0);
+
+    notify(true);
+    await flush(quanta);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toContain("offline_event");
+  });
+});
+
+describe("event catalog", () => {
+  test("checks event names and arguments at compile time", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta<{
+      purchase: { sku: string; plan: "pro" | "team" };
+    }>();
+    await quanta.initializeAsync("app", true, { transport });
+
+    await quanta.logAsync("purchase", { sku: "A1", plan: "pro" });
+    // @ts-expect-error unknown event name
+    await quanta.logAsync("purchse", { sku: "A1", plan: "pro" });
+    // @ts-expect-error plan is not one of the declared values
+    await quanta.logAsync("purchase", { sku: "A1", plan: "free" });
+    // @ts-expect-error argument strings need the untyped catalog
+    await quanta.logAsync("purchase", "sku");
+
+    expect(requests[0].body).toContain("purchase");
+  });
+});
+
+describe("arguments", () => {
+  test("serializes non-string values canonically", async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+    quanta.register({ plan: "pro", tenant: "acme", seats: 12 });
+
+    await quanta.logAsync("checkout", {
+      total: 1e21,
+      ratio: 0.1 + 0.2,
+      price: 1234567.125,
+      delta: -1e-7,
+      gift: false,
+      at: new Date(1700000000500),
+      tenant: null,
+    });
+
+    const args = requests[0].body!.split("\u001E")[4].split("\u001F");
+    expect(args).toEqual([
+      "at",
+      "1700000000",
+      "delta",
+      "0",
+      "gift",
+      "false",
+      "plan",
+      "pro",
+      "price",
+      "1234567.125",
+      "ratio",
+      "0.3",
+      "seats",
+      "12",
+      "total",
+      "1000000000000000000000",
+    ]);
+    expect(quanta.getSuperProperties().seats).toBe("12");
+  });
+});
+
+describe("ab tests", () => {
+  const setup = async () => {
+    const { transport, requests } = makeTransport();
+    const quanta = new TestQuanta();
+    await quanta.asyncStorage.setItem(
+      "tools.quanta.ab",
+      JSON.stringify([{ name: ["checkout"], variants: [0, 100] }])
+    );
+    await quanta.initializeAsync("app", true, {
+      transport,
+      abExposureEvents: true,
+    });
+    return { quanta, requests };
+  };
+
+  test("logs an exposure event once per experiment", async () => {
+    const { quanta, requests } = await setup();
+
+    expect(await quanta.abTestAsync("Checkout")).toBe("B");
+    expect(await quanta.abTestAsync("checkout")).toBe("B");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toContain(
+      "exposure\u001E0\u001Eexperiment\u001Fcheckout\u001Fvariant\u001FB"
+    );
+    expect(await quanta.asyncStorage.getItem("tools.quanta.ab.exposures")).toBe(
+      JSON.stringify({ checkout: "B" })
+    );
+  });
+
+  test("overrides variants without logging exposures", async () => {
+    const { quanta, requests } = await setup();
+
+    quanta.overrideVariant("checkout", "c");
+    expect(await quanta.abTestAsync("checkout")).toBe("C");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(requests).toHaveLength(0);
+    expect(await quanta.asyncStorage.getItem("tools.quanta.ab.overrides")).toBe(
+      JSON.stringify({ checkout: "C" })
+    );
+
+    quanta.overrideVariant("checkout", null);
+    expect(await quanta.abTestAsync("checkout")).toBe("B");
+  });
+
+  const reweight = async (quanta: TestQuanta) => {
+    const reweighted = JSON.stringify([
+      { name: ["checkout"], variants: [100, 0] },
+    ]);
+    await quanta.asyncStorage.setItem("tools.quanta.ab", reweighted);
+    (quanta as unknown as { setAbJson(json: string): void }).setAbJson(
+      reweighted
+    );
+  };
+
+  test("keeps assignments when an experiment is reweighted", async () => {
+    const { quanta } = await setup();
+
+    expect(await quanta.abTestAsync("checkout")).toBe("B");
+    await reweight(quanta);
+
+    expect(await quanta.abTestAsync("checkout")).toBe("B");
+    expect(await quanta.asyncStorage.getItem("tools.quanta.ab.sticky")).toBe(
+      JSON.stringify({ checkout: "B" })
+    );
+
+    await quanta.resetAbAssignmentsAsync();
+    expect(await quanta.abTestAsync("checkout")).toBe("A");
+  });
+
+  test("moves users who weren't exposed when reweighted", async () => {
+    const { quanta } = await setup();
+    expect(
+      await quanta.asyncStorage.getItem("tools.quanta.ab.sticky")
+    ).not.toContain("checkout");
+
+    await reweight(quanta);
+    expect(await quanta.abTestAsync("checkout")).toBe("A");
+  });
+
+  test("notifies listeners when assignments change", async () => {
+    const { transport } = makeTransport(() => ({
+      text: async () =>
+        JSON.stringify([{ name: ["checkout"], variants: [100, 0] }]),
+    }));
+    const quanta = new TestQuanta();
+    await quanta.initializeAsync("app", true, { transport });
+    const listener = jest.fn();
+    const unsubscribe = quanta.onAbChange(listener);
+
+    await quanta.logAsync("signup");
+    await quanta.logAsync("signup");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ checkout: "A" });
+
+    unsubscribe();
+    quanta.overrideVariant("checkout", "B");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("EventQueue", () => {
+  const makeStorage = () => {
+    const items: Record<string, string> = {};
+    return {
+      items,
+      getItem: jest.fn(async (key: string) => items[key] ?? null),
+      setItem: jest.fn(async (key: string, value: string) => {
+        items[key] = value;
+      }),
+    };
+  };
+
+  const task = (event: string, priority = 0) => ({
+    appId: "app",
+    userData: "",
+    event,
+    revenue: "0",
+    addedArguments: "",
+    time: new Date(),
+    priority,
+  });
+
+  test("only rewrites the chunk an event is appended to", async () => {
+    const storage = makeStorage();
+    const queue = new EventQueue(() => storage, jest.fn(), jest.fn());
+    queue.configure({ chunkSize: 2 });
+
+    await queue.push(task("a"), task("b"), task("c"));
+    storage.setItem.mockClear();
+    await queue.push(task("d"));
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(storage.setItem.mock.calls[0][0]).toBe("tools.quanta.queue.chunk.1");
+
+    const reloaded = new EventQueue(() => storage, jest.fn(), jest.fn());
+    await reloaded.load();
+    expect(reloaded.tasks.map((t) => t.event)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  test("evicts events when full", async () => {
+    const onDrop = jest.fn();
+    const queue = new EventQueue(() => makeStorage(), onDrop, jest.fn());
+    queue.configure({ maxEvents: 2, eviction: "lowest-priority" });
+
+    await queue.push(task("purchase", 1), task("a"), task("b"));
+
+    expect(queue.tasks.map((t) => t.event)).toEqual(["purchase", "b"]);
+    expect(onDrop).toHaveBeenCalledWith(
+      [expect.objectContaining({ event: "a" })],
+      "queue-full"
+    );
+  });
+
+  test("drops the oldest events when storage is full", async () => {
+    const storage = makeStorage();
+    const onDrop = jest.fn();
+    const onError = jest.fn();
+    const queue = new EventQueue(() => storage, onDrop, onError);
+    queue.configure({ chunkSize: 1 });
+    await queue.push(task("a"), task("b"));
+
+    storage.setItem.mockRejectedValueOnce(new Error("QuotaExceededError"));
+    await queue.push(task("c"));
+
+    expect(onError).toHaveBeenCalled();
+    expect(onDrop).toHaveBeenCalledWith(
+      [expect.objectContaining({ event: "a" })],
+      "storage-full"
+    );
+    expect(queue.tasks.map((t) => t.event)).toEqual(["b", "c"]);
+  });
+
+  test("migrates the legacy queue format", async () => {
+    const storage = makeStorage();
+    storage.items["tools.quanta.queue.tasks"] = JSON.stringify([task("old")]);
+    const queue = new EventQueue(() => storage, jest.fn(), jest.fn());
+
+    await queue.load();
+
+    expect(queue.tasks.map((t) => t.event)).toEqual(["old"]);
+    expect(storage.items["tools.quanta.queue.tasks"]).toBe("");
+  });
+});
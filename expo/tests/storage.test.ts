@@ -0,0 +1,60 @@
+import { StorageChain } from "../../src/storage";
+import { createTestQuanta } from "../src/testing";
+
+describe("StorageChain", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  test("prefers localStorage", async () => {
+    const detected = jest.fn();
+    const storage = new StorageChain(detected);
+    expect(storage.name).toBeUndefined();
+
+    await storage.setItem("tools.quanta.id", "abc");
+
+    expect(storage.name).toBe("localStorage");
+    expect(detected).toHaveBeenCalledWith("localStorage");
+    expect(localStorage.getItem("tools.quanta.id")).toBe("abc");
+  });
+
+  test("falls back to a cookie when localStorage throws", async () => {
+    jest.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new Error("SecurityError");
+    });
+    const storage = new StorageChain(() => {});
+
+    await storage.setItem("tools.quanta.id", "abc");
+    await storage.setItem("tools.quanta.queue", "x".repeat(5000));
+    await storage.setItem("tools.quanta.session", "{}");
+
+    expect(storage.name).toBe("cookie");
+    expect(document.cookie).toContain("tools.quanta.id=abc");
+    expect(document.cookie).not.toContain("tools.quanta.queue");
+    expect(document.cookie).not.toContain("tools.quanta.session");
+    expect(await storage.getItem("tools.quanta.id")).toBe("abc");
+    expect(await storage.getItem("tools.quanta.queue")).toHaveLength(5000);
+    expect(await storage.getItem("tools.quanta.session")).toBe("{}");
+
+    await storage.setItem("tools.quanta.id", "def");
+    expect(await storage.getItem("tools.quanta.id")).toBe("def");
+  });
+});
+
+describe("storage config", () => {
+  test("uses and reports a custom adapter", async () => {
+    const items: Record<string, string> = {};
+    const quanta = await createTestQuanta({
+      storage: {
+        getItem: async (key) => items[key] ?? null,
+        setItem: async (key, value) => {
+          items[key] = value;
+        },
+      },
+    });
+
+    expect(quanta.getStorageBackend()).toBe("custom");
+    expect(items["tools.quanta.id"]).toBe(quanta.getId());
+  });
+});
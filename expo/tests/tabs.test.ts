@@ -0,0 +1,125 @@
+import { EventTask } from "../src/abstract";
+import { TabCoordinator } from "../../src/tabs";
+
+const LEADER_KEY = "tools.quanta.leader";
+
+// Delivers messages to every other channel with the same name, like tabs
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(private name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    for (const channel of FakeBroadcastChannel.channels) {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.({ data: JSON.parse(JSON.stringify(data)) });
+      }
+    }
+  }
+}
+
+const task = (event: string): EventTask => ({
+  appId: "app",
+  userData: "user",
+  event,
+  revenue: "0",
+  addedArguments: "",
+  time: new Date(1700000000000),
+});
+
+const startTab = async () => {
+  const promoted = jest.fn();
+  const received: EventTask[] = [];
+  const consent = jest.fn();
+  const tab = new TabCoordinator(
+    promoted,
+    (tasks) => received.push(...tasks),
+    consent
+  );
+  const started = tab.start();
+  jest.advanceTimersByTime(100);
+  await started;
+  return { tab, promoted, received, consent };
+};
+
+describe("TabCoordinator", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeBroadcastChannel.channels = [];
+    (global as any).BroadcastChannel = FakeBroadcastChannel;
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    delete (global as any).BroadcastChannel;
+    localStorage.clear();
+  });
+
+  test("elects a single leader", async () => {
+    const first = await startTab();
+    const second = await startTab();
+
+    expect(first.tab.role).toBe("leader");
+    expect(second.tab.role).toBe("follower");
+
+    jest.advanceTimersByTime(10 * 1000);
+    expect(first.tab.role).toBe("leader");
+    expect(second.tab.role).toBe("follower");
+  });
+
+  test("hands events to the leader exactly once", async () => {
+    const leader = await startTab();
+    const follower = await startTab();
+
+    expect(follower.tab.handOff([task("alpha")])).toBe(true);
+    expect(leader.tab.handOff([task("beta")])).toBe(false);
+
+    expect(leader.received.map((event) => event.event)).toEqual(["alpha"]);
+    expect(leader.received[0].time).toEqual(new Date(1700000000000));
+    expect(follower.received).toEqual([]);
+  });
+
+  test("shares consent changes with every other tab", async () => {
+    const leader = await startTab();
+    const follower = await startTab();
+
+    follower.tab.shareConsent("granted");
+    leader.tab.shareConsent("denied");
+
+    expect(leader.consent.mock.calls).toEqual([["granted"]]);
+    expect(follower.consent.mock.calls).toEqual([["denied"]]);
+  });
+
+  test("promotes a follower when the leader goes away", async () => {
+    // Heartbeat of a leader tab that is closed right after
+    localStorage.setItem(
+      LEADER_KEY,
+      JSON.stringify({ id: "closed", at: Date.now() })
+    );
+    const follower = await startTab();
+    expect(follower.tab.role).toBe("follower");
+
+    jest.advanceTimersByTime(6000 + 100);
+
+    expect(follower.tab.role).toBe("leader");
+    expect(follower.promoted).toHaveBeenCalledTimes(1);
+  });
+
+  test("steps down when another tab took over", async () => {
+    const leader = await startTab();
+
+    // A throttled leader missed its heartbeat and another tab claimed it
+    localStorage.setItem(
+      LEADER_KEY,
+      JSON.stringify({ id: "other", at: Date.now() })
+    );
+    jest.advanceTimersByTime(2000);
+
+    expect(leader.tab.role).toBe("follower");
+    expect(leader.tab.handOff([task("alpha")])).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import { createTestQuanta } from "../src/testing";
+
+describe("QuantaTestHarness", () => {
+  test("captures and decodes logged events", async () => {
+    const quanta = await createTestQuanta();
+
+    await quanta.logAsync("purchase", { sku: "A1", seats: 3 });
+    await quanta.logWithRevenueAsync("upgrade", 9.99);
+
+    expect(quanta.expectEvent("purchase", { seats: 3 }).args).toEqual({
+      sku: "A1",
+      seats: "3",
+    });
+    expect(quanta.expectEvent("upgrade").revenue).toBe(9.99);
+    expect(() => quanta.expectEvent("purchase", { sku: "B2" })).toThrow(
+      'Expected event "purchase" with {"sku":"B2"}'
+    );
+    expect(quanta.events().map((event) => event.event)).toEqual([
+      "session_start",
+      "purchase",
+      "upgrade",
+    ]);
+  });
+
+  test("controls the clock", async () => {
+    const quanta = await createTestQuanta({ sessionTimeout: 60 * 1000 });
+    await quanta.logAsync("alpha");
+
+    quanta.advance(2 * 60 * 1000);
+    await quanta.logAsync("beta");
+
+    quanta.expectEvent("session_end", { session: 1 });
+    expect(quanta.expectEvent("beta").time.getTime()).toBe(
+      Date.UTC(2025, 0, 1, 0, 2)
+    );
+  });
+
+  test("sets experiments", async () => {
+    const quanta = await createTestQuanta();
+
+    quanta.setAbJson(
+      JSON.stringify([{ name: ["checkout"], variants: [0, 100] }])
+    );
+    await quanta.logAsync("alpha");
+
+    expect(quanta.abTest("checkout")).toBe("B");
+    expect(quanta.expectEvent("alpha").abLetters).toBe("B");
+  });
+});
@@ -4,18 +4,28 @@ import commonjs from "@rollup/plugin-commonjs";
 import terser from "@rollup/plugin-terser";
 
 export default [
-  // Module builds (CJS and ESM)
+  // Module builds (CJS and ESM), the React entry shares the Quanta instance
   {
-    input: "src/index.ts",
+    input: {
+      index: "src/index.ts",
+      react: "src/react.ts",
+      testing: "src/testing.ts",
+      node: "src/node.ts",
+    },
+    external: ["react", "fs", "os"],
     output: [
       {
-        file: "dist/index.cjs.js",
+        dir: "dist",
+        entryFileNames: "[name].cjs.js",
+        chunkFileNames: "[name]-[hash].cjs.js",
         format: "cjs",
         exports: "named",
         sourcemap: true,
       },
       {
-        file: "dist/index.esm.js",
+        dir: "dist",
+        entryFileNames: "[name].esm.js",
+        chunkFileNames: "[name]-[hash].esm.js",
         format: "es",
         exports: "named",
         sourcemap: true,
@@ -1,19 +1,52 @@
+import {
+  DEFAULT_API_URL,
+  DEFAULT_INGRESS_URL,
+  Transport,
+  TransportResponse,
+  fetchTransport,
+  trimBaseUrl,
+} from "./transport";
+import { DEFAULT_SCRUBBED_QUERY_PARAMS, scrubUrl } from "./scrub";
+import { fitArguments } from "./budget";
+import { RateProvider, isCurrencyCode } from "./currency";
+import { DropReason, EventQueue, EvictionPolicy, byteLength } from "./queue";
+
+const GROUP_SEPARATOR = "\u001D";
 const RECORD_SEPARATOR = "\u001E";
 const UNIT_SEPARATOR = "\u001F";
+const AB_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
 
 /**
  * Quanta Analytics SDK for Web
  */
-export abstract class AbstractQuantaBase {
+export abstract class AbstractQuantaBase<
+  Events extends EventMap = DefaultEventMap
+> {
   protected _initialized = false;
   protected _initializing = false;
   protected _initializingPromise: Promise<void> | null = null;
   protected _id = "";
+  protected _knownId = "";
   protected _appId = "";
   protected _abLetters = "";
   protected _abDict: Record<string, string> = {};
-  protected _queue: EventTask[] = [];
+  protected _abOverrides: Record<string, string> = {};
+  protected _abExposures: Record<string, string> = {};
+  protected _abExposureEvents = false;
+  protected _abSticky: Record<string, string> = {};
+  protected _abListeners: ((variants: Record<string, string>) => void)[] = [];
+  protected _queue = new EventQueue(
+    () => this.asyncStorage,
+    (tasks, reason) => this.handleDroppedEvents(tasks, reason),
+    (message, error) => this.debugWarn(message, error)
+  );
   protected _isProcessing = false;
+  protected _inFlight: EventTask[] = [];
+  protected _handOffBacklog: EventTask[] = [];
+  protected _online = true;
+  protected _network: NetworkAdapter | null = null;
+  protected _unwatchNetwork: (() => void) | null = null;
+  protected _networkWaiters: (() => void)[] = [];
   protected _installDate = 0;
   // New configuration properties for script tag data attributes
   protected _skipFirstViewEvent = false;
@@ -21,11 +54,31 @@ export abstract class AbstractQuantaBase {
   protected _skipAllViewEvents = false;
   protected _isFirstViewEvent = true;
   protected _currentPath = null as string | null;
-
-  abstract makeAsyncStorage(): {
-    getItem: (key: string) => Promise<string | null>;
-    setItem: (key: string, value: string) => Promise<void>;
-  };
+  protected _transport: Transport = fetchTransport;
+  protected _ingressUrl = DEFAULT_INGRESS_URL;
+  protected _apiUrl = DEFAULT_API_URL;
+  protected _maxBatchSize = 50;
+  protected _maxBatchBytes = 64 * 1024;
+  protected _consent: ConsentState | null = null;
+  protected _defaultConsent: ConsentState = "granted";
+  protected _pendingEvents: EventTask[] = [];
+  protected _superProperties: Record<string, string> = {};
+  protected _plugins: QuantaPlugin[] = [];
+  protected _pluginsReady = false;
+  protected _scrubPii = true;
+  protected _scrubbedQueryParams = DEFAULT_SCRUBBED_QUERY_PARAMS;
+  protected _argPriority: Record<string, number> = {};
+  protected _session: SessionState | null = null;
+  protected _sessionTimeout = 30 * 60 * 1000;
+  protected _sessionArgument = false;
+  protected _sessionEvents = true;
+  protected _reportingCurrency = "USD";
+  protected _rateProvider: RateProvider | null = null;
+  protected _cookieDomain: string | null = null;
+  protected _linkDomains: string[] = [];
+  protected _autocapture = false;
+
+  abstract makeAsyncStorage(): StorageAdapter;
 
   public asyncStorage = this.makeAsyncStorage();
 
@@ -36,9 +89,110 @@ export abstract class AbstractQuantaBase {
   /**
    * Initialize the Quanta SDK
    * @param appId Your Quanta application ID (optional if loaded via script tag)
+   * @param config Optional SDK configuration
+   */
+  initialize(appId?: string, config?: QuantaConfig) {
+    this.initializeAsync(appId, false, config).catch(console.error);
+  }
+
+  /**
+   * Configure the SDK. Can be called before or after initialization.
+   * @param config SDK configuration
+   */
+  configure(config: QuantaConfig) {
+    if (config.transport) {
+      this._transport = config.transport;
+    }
+    if (config.ingressUrl) {
+      this._ingressUrl = trimBaseUrl(config.ingressUrl);
+    }
+    if (config.apiUrl) {
+      this._apiUrl = trimBaseUrl(config.apiUrl);
+    }
+    if (config.maxBatchSize !== undefined) {
+      this._maxBatchSize = Math.max(1, config.maxBatchSize);
+    }
+    if (config.maxBatchBytes !== undefined) {
+      this._maxBatchBytes = config.maxBatchBytes;
+    }
+    if (config.scrubPii !== undefined) {
+      this._scrubPii = config.scrubPii;
+    }
+    if (config.scrubQueryParams) {
+      this._scrubbedQueryParams = DEFAULT_SCRUBBED_QUERY_PARAMS.concat(
+        config.scrubQueryParams.map((name) => name.toLowerCase())
+      );
+    }
+    if (config.abExposureEvents !== undefined) {
+      this._abExposureEvents = config.abExposureEvents;
+    }
+    if (config.sessionTimeout !== undefined) {
+      this._sessionTimeout = config.sessionTimeout;
+    }
+    if (config.sessionEvents !== undefined) {
+      this._sessionEvents = config.sessionEvents;
+    }
+    if (config.sessionArgument !== undefined) {
+      this._sessionArgument = config.sessionArgument;
+    }
+    if (config.reportingCurrency) {
+      this._reportingCurrency = config.reportingCurrency.toUpperCase();
+    }
+    if (config.rateProvider) {
+      this._rateProvider = config.rateProvider;
+    }
+    if (config.argPriority) {
+      this._argPriority = { ...this._argPriority, ...config.argPriority };
+    }
+    if (config.maxQueueEvents !== undefined) {
+      this._queue.configure({ maxEvents: config.maxQueueEvents });
+    }
+    if (config.maxQueueBytes !== undefined) {
+      this._queue.configure({ maxBytes: config.maxQueueBytes });
+    }
+    if (config.queueEviction) {
+      this._queue.configure({ eviction: config.queueEviction });
+    }
+    if (config.network) {
+      this._network = config.network;
+      if (this._initialized) {
+        this.watchNetwork().catch(console.error);
+      }
+    }
+    if (config.storage) {
+      if (this._initialized || this._initializing) {
+        this.debugWarn(
+          "Storage can only be configured before initialization. The configured storage is ignored."
+        );
+      } else {
+        const storage = config.storage;
+        this.asyncStorage = {
+          name: storage.name ?? "custom",
+          getItem: (key) => storage.getItem(key),
+          setItem: (key, value) => storage.setItem(key, value),
+        };
+      }
+    }
+    if (config.cookieDomain !== undefined) {
+      this._cookieDomain = config.cookieDomain || null;
+    }
+    if (config.linkDomains) {
+      this._linkDomains = config.linkDomains;
+    }
+    if (config.autocapture !== undefined) {
+      this._autocapture = config.autocapture;
+    }
+    if (config.requireConsent !== undefined) {
+      this._defaultConsent = config.requireConsent ? "pending" : "granted";
+    }
+  }
+
+  /**
+   * Name of the storage in use, e.g. "localStorage" or "memory"
+   * @returns The name, or null while the web SDK is still picking one
    */
-  initialize(appId?: string) {
-    this.initializeAsync(appId).catch(console.error);
+  getStorageBackend(): string | null {
+    return this.asyncStorage.name ?? null;
   }
 
   async loadAppId() {
@@ -52,8 +206,18 @@ export abstract class AbstractQuantaBase {
   /**
    * Initialize the Quanta SDK
    * @param appId Your Quanta application ID (optional if loaded via script tag)
+   * @param silent Skip warnings when no app ID is available
+   * @param config Optional SDK configuration
    */
-  async initializeAsync(appId?: string, silent: boolean = false) {
+  async initializeAsync(
+    appId?: string,
+    silent: boolean = false,
+    config?: QuantaConfig
+  ) {
+    if (config) {
+      this.configure(config);
+    }
+
     if (this._initialized) {
       if (appId) {
         this._appId = appId;
@@ -64,7 +228,7 @@ export abstract class AbstractQuantaBase {
 
     if (this._initializing) {
       while (!this._initializingPromise) {
-        await new Promise<void>((resolve) => setTimeout(resolve, 100));
+        await this.sleep(100);
       }
       await this._initializingPromise;
       if (appId && !this._appId) {
@@ -102,23 +266,53 @@ export abstract class AbstractQuantaBase {
       }
       await this.setAppId(this._appId);
 
+      // Load consent before anything user related is written to storage
+      if (this._consent === null) {
+        this._consent = await this.loadConsent();
+      }
+
       // Load or generate user ID
       this._id = await this.loadOrCreateId();
       this._installDate = await this.loadOrCreateInstallDate();
+      await this.adoptLinkedId();
+      this.shareIdentity();
+
+      // Load super properties, keeping any registered before initialization
+      await this.loadSuperProperties();
+      await this.loadSession();
 
       // Load AB test settings
       const abJson = (await this.asyncStorage.getItem("tools.quanta.ab")) || "";
+      this._abSticky = await this.loadAbSticky();
       this._abLetters = this.getAbLetters(abJson);
       this._abDict = this.getAbDict(abJson);
+      await this.saveAbSticky();
+      await this.loadAbOverrides();
+      this._abExposures = await this.loadAbExposures();
+      this.notifyAbChange();
 
       // Setup URL change listeners
       this.setupUrlChangeListeners();
 
-      // Load any queued events
-      await this.loadQueue();
+      // Flush pending events when the app is about to go away
+      this.setupExitListeners();
+
+      // Pause delivery while offline
+      await this.watchNetwork();
+
+      // Only one tab may own the persisted queue
+      await this.electQueueLeader();
+      if (this.isQueueLeader()) {
+        // Load any queued events
+        await this.loadQueue();
+        if (this.getConsent() === "denied") {
+          await this.clearQueue();
+        }
+      }
+      await this.drainHandOffBacklog();
 
-      // Process any queued events
-      await this.processQueue();
+      // Deliver queued events in the background, it may wait for the network
+      this.processQueue().catch(console.error);
 
       // Check if app is claimed (only in debug mode)
       if (this.isDebug()) {
@@ -128,6 +322,12 @@ export abstract class AbstractQuantaBase {
       this.debugLog("Quanta initialized");
       this._initialized = true;
 
+      // Let plugins registered before initialization set themselves up
+      for (const plugin of this._plugins) {
+        await this.initPlugin(plugin);
+      }
+      this._pluginsReady = true;
+
       // Send launch event
       await this.maybeSendViewEvent();
     } finally {
@@ -146,6 +346,11 @@ export abstract class AbstractQuantaBase {
    */
   abstract handleUrlChange(): Promise<void>;
 
+  /**
+   * Set up listeners that flush pending events before the app goes away
+   */
+  protected setupExitListeners(): void {}
+
   async maybeSendViewEvent() {
     if (!this._initialized) {
       await this.initializeAsync();
@@ -184,12 +389,73 @@ export abstract class AbstractQuantaBase {
    */
   abstract getAppIdFromScriptTag(): string | null;
 
+  /**
+   * Register a plugin. Plugins run in registration order and can transform
+   * or drop events before they are queued.
+   * @param plugin The plugin to add
+   */
+  use(plugin: QuantaPlugin) {
+    this._plugins.push(plugin);
+    if (this._pluginsReady) {
+      this.initPlugin(plugin).catch(console.error);
+    }
+  }
+
+  protected async initPlugin(plugin: QuantaPlugin) {
+    if (!plugin.init) return;
+    try {
+      await plugin.init(this);
+    } catch (e) {
+      this.debugError(`Plugin ${plugin.name ?? ""} failed to initialize:`, e);
+    }
+  }
+
+  /**
+   * Run an event through the beforeSend chain of all plugins
+   * @returns The transformed event, or null if a plugin dropped it
+   */
+  protected async runBeforeSend(
+    event: QuantaEvent
+  ): Promise<QuantaEvent | null> {
+    let current: QuantaEvent | null = event;
+    for (const plugin of this._plugins) {
+      if (!plugin.beforeSend) continue;
+      try {
+        current = await plugin.beforeSend(current);
+      } catch (e) {
+        this.debugError(`Plugin ${plugin.name ?? ""} failed in beforeSend:`, e);
+      }
+      if (!current) {
+        this.debugLog(
+          `Event "${event.event}" dropped by plugin ${plugin.name ?? ""}`
+        );
+        return null;
+      }
+    }
+    return current;
+  }
+
+  protected notifyPlugins(success: boolean, events: EventTask[]) {
+    if (events.length === 0) return;
+    for (const plugin of this._plugins) {
+      try {
+        if (success) plugin.onSendSuccess?.(events);
+        else plugin.onSendFailure?.(events);
+      } catch (e) {
+        this.debugError(`Plugin ${plugin.name ?? ""} failed:`, e);
+      }
+    }
+  }
+
   /**
    * Log an event to Quanta
    * @param event Event name
    * @param addedArguments Additional event parameters or formatted argument string
    */
-  log(event: string, addedArguments: Record<string, string> | string = {}) {
+  log<E extends EventName<Events>>(
+    event: E,
+    addedArguments?: EventArguments<Events, E>
+  ) {
     this.logWithRevenue(event, 0, addedArguments);
   }
 
@@ -198,9 +464,9 @@ export abstract class AbstractQuantaBase {
    * @param event Event name
    * @param addedArguments Additional event parameters or formatted argument string
    */
-  async logAsync(
-    event: string,
-    addedArguments: Record<string, string> | string = {}
+  async logAsync<E extends EventName<Events>>(
+    event: E,
+    addedArguments?: EventArguments<Events, E>
   ) {
     await this.logWithRevenueAsync(event, 0, addedArguments);
   }
@@ -211,11 +477,11 @@ export abstract class AbstractQuantaBase {
    * @param revenue Revenue amount
    * @param addedArguments Additional event parameters or formatted argument string
    */
-  logWithRevenue(
-    event: string,
+  logWithRevenue<E extends EventName<Events>>(
+    event: E,
     revenue: number = 0,
-    addedArguments: Record<string, string> | string = {},
-    time: Date = new Date()
+    addedArguments?: EventArguments<Events, E>,
+    time: Date = new Date(this.now())
   ) {
     this.logWithRevenueAsync(event, revenue, addedArguments, time).catch(
       console.error
@@ -230,11 +496,171 @@ export abstract class AbstractQuantaBase {
    * @param revenue Revenue amount
    * @param addedArguments Additional event parameters or formatted argument string
    */
-  async logWithRevenueAsync(
-    event: string,
+  async logWithRevenueAsync<E extends EventName<Events>>(
+    event: E,
     revenue: number = 0,
-    addedArguments: Record<string, string> | string = {},
-    time: Date = new Date()
+    addedArguments?: EventArguments<Events, E>,
+    time: Date = new Date(this.now())
+  ) {
+    await this.logEventAsync(
+      event,
+      revenue,
+      (addedArguments ?? {}) as Record<string, ArgValue> | string,
+      time
+    );
+  }
+
+  /**
+   * Log a purchase. The amount is converted to the reporting currency.
+   * @param details Price, currency and product of the purchase
+   */
+  purchase(details: PurchaseDetails) {
+    this.purchaseAsync(details).catch(console.error);
+  }
+
+  /**
+   * Log a purchase
+   * @param details Price, currency and product of the purchase
+   */
+  async purchaseAsync(details: PurchaseDetails) {
+    await this.logRevenueEvent("purchase", details, 1);
+  }
+
+  /**
+   * Log a refund. Pass the refunded amount as a positive number, it is
+   * subtracted from the revenue.
+   * @param details Refunded amount, currency and product
+   */
+  refund(details: PurchaseDetails) {
+    this.refundAsync(details).catch(console.error);
+  }
+
+  /**
+   * Log a refund
+   * @param details Refunded amount, currency and product
+   */
+  async refundAsync(details: PurchaseDetails) {
+    await this.logRevenueEvent("refund", details, -1);
+  }
+
+  /**
+   * Log a subscription start, trial or renewal
+   * @param details Price, currency, billing period and product
+   */
+  subscription(details: SubscriptionDetails) {
+    this.subscriptionAsync(details).catch(console.error);
+  }
+
+  /**
+   * Log a subscription start, trial or renewal
+   * @param details Price, currency, billing period and product
+   */
+  async subscriptionAsync(details: SubscriptionDetails) {
+    await this.logSubscription(details);
+  }
+
+  protected async logSubscription(
+    details: SubscriptionDetails,
+    options: LogOptions = {}
+  ) {
+    await this.logRevenueEvent(
+      "subscription",
+      details,
+      1,
+      {
+        period: details.period,
+        trial: details.trial ?? false,
+        renewal: details.renewal ?? false,
+      },
+      options
+    );
+  }
+
+  /**
+   * Validate and convert a revenue event, then log it. The original amount
+   * and currency are kept as arguments.
+   * @param sign 1 for income, -1 for refunds
+   */
+  protected async logRevenueEvent(
+    event: string,
+    details: PurchaseDetails,
+    sign: number,
+    extraArguments: Record<string, ArgValue> = {},
+    options: LogOptions = {}
+  ) {
+    const currency = (details.currency || "").toUpperCase();
+    if (!isCurrencyCode(currency)) {
+      this.debugError(
+        `"${details.currency}" is not an ISO 4217 currency code. The ${event} event was not logged.`
+      );
+      return;
+    }
+    const quantity = details.quantity ?? 1;
+    if (!isFinite(details.amount) || details.amount < 0 || quantity <= 0) {
+      this.debugError(
+        `Invalid amount or quantity. The ${event} event was not logged.`
+      );
+      return;
+    }
+
+    const total = details.amount * quantity;
+    const converted = await this.convertCurrency(total, currency);
+    await this.logEventAsync(
+      event,
+      sign * (converted ?? 0),
+      {
+        ...details.args,
+        ...extraArguments,
+        product: details.productId ?? null,
+        quantity: details.quantity ?? null,
+        amount: sign * total,
+        currency,
+      },
+      new Date(this.now()),
+      options
+    );
+  }
+
+  /**
+   * Convert an amount to the reporting currency
+   * @returns The converted amount, or null if no rate is available
+   */
+  protected async convertCurrency(
+    amount: number,
+    currency: string
+  ): Promise<number | null> {
+    if (currency === this._reportingCurrency) return amount;
+    if (!this._rateProvider) {
+      this.debugWarn(
+        `No rate provider configured to convert ${currency} to ${this._reportingCurrency}. Revenue will be reported as 0.`
+      );
+      return null;
+    }
+    try {
+      const rate = await this._rateProvider.getRate(
+        currency,
+        this._reportingCurrency
+      );
+      if (!isFinite(rate) || rate <= 0) throw new Error(`Invalid rate ${rate}`);
+      return amount * rate;
+    } catch (e) {
+      this.debugWarn(
+        `Failed to convert ${currency} to ${this._reportingCurrency}. Revenue will be reported as 0.`,
+        e
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Untyped log call, used for the events the SDK sends itself
+   */
+  protected async logEventAsync(
+    event: string,
+    revenue: number,
+    addedArguments: Record<string, ArgValue> | string,
+    time: Date = new Date(this.now()),
+    options: LogOptions = {}
   ) {
     if (this.isServerSide()) {
       console.info("[Quanta] Skipping client sdk call on server.");
@@ -242,7 +668,25 @@ export abstract class AbstractQuantaBase {
     }
     if (!this._initialized) {
       this.initialize();
+      // The stored session and ID must be loaded before the event uses them
+      await this._initializingPromise;
     }
+    // Sessions belong to the user of this instance
+    const user = options.user;
+    if (!user && event !== "session_start" && event !== "session_end") {
+      await this.touchSession();
+    }
+
+    const processed = await this.runBeforeSend({
+      event,
+      revenue,
+      args: addedArguments,
+      time,
+    });
+    if (!processed) return;
+    ({ event, revenue, args: addedArguments, time } = processed);
+    // Revenue events are the last to go when the queue is full
+    const priority = processed.priority ?? (revenue !== 0 ? 1 : 0);
 
     if (event.length > 200) {
       this.debugWarn(
@@ -256,26 +700,43 @@ export abstract class AbstractQuantaBase {
     // Check if addedArguments is a direct string or a Record
     if (typeof addedArguments === "string") {
       // Direct string case - use as is, just ensure it's safe
-      argString = this.safe(addedArguments, true);
+      argString = this.safe(this.scrub(addedArguments, event), true);
     } else {
-      // Record case - existing logic
-      const sortedKeys = Object.keys(addedArguments).sort();
-
-      for (const key of sortedKeys) {
-        const safeKey = this.safe(key, false);
-        const safeValue = this.safe(addedArguments[key], false);
-        argString += `${safeKey}${UNIT_SEPARATOR}${safeValue}${UNIT_SEPARATOR}`;
-      }
-
-      if (argString.length > 0) {
-        argString = argString.substring(
-          0,
-          argString.length - UNIT_SEPARATOR.length
+      // Record case - super properties first, call-site arguments win
+      const args = this.scrubArguments(
+        this.formatArguments({
+          ...this._superProperties,
+          ...(user ? {} : this.sessionArguments()),
+          ...addedArguments,
+        }),
+        event
+      );
+      const callSite = addedArguments;
+      const argPriority = options.argPriority ?? {};
+
+      // Super properties give way to call-site arguments when over budget
+      const rank = (key: string) =>
+        argPriority[key] ??
+        this._argPriority[key] ??
+        (key in callSite ? 0 : -1);
+      const dropPriority = options.dropPriority ?? {};
+      const fitted = fitArguments(
+        this.safeArguments(args),
+        200 - event.length,
+        rank,
+        (key) => dropPriority[key] ?? rank(key)
+      );
+      argString = fitted.argString;
+      if (fitted.shortened.length > 0 || fitted.dropped.length > 0) {
+        this.debugWarn(
+          `Event "${event}" exceeds 200 characters. Shortened: ${
+            fitted.shortened.join(", ") || "none"
+          }. Dropped: ${fitted.dropped.join(", ") || "none"}.`
         );
       }
     }
 
-    // Check if event + args exceeds length limit
+    // Formatted argument strings are truncated as a last resort
     if (event.length + argString.length > 200) {
       this.debugWarn(
         "Added arguments are too long. Event name + args should be 200 characters or less. They will be truncated."
@@ -283,7 +744,7 @@ export abstract class AbstractQuantaBase {
       argString = argString.substring(0, 200 - event.length);
     }
 
-    const userData = this.getUserData();
+    const userData = this.getUserData(user);
     const revenueString = this.stringForDouble(revenue);
 
     await this.enqueueEvent({
@@ -293,10 +754,160 @@ export abstract class AbstractQuantaBase {
       revenue: revenueString,
       addedArguments: this.safe(argString, true),
       time,
-      abLetters: this._abLetters,
+      // Other users' assignments aren't known here
+      abLetters: user ? "" : this._abLetters,
+      priority,
     });
   }
 
+  /**
+   * Redact personal data from a value, if scrubbing is enabled
+   * @param event Event name, used for debug logs
+   * @param key Argument name, used for debug logs
+   */
+  protected scrub(value: string, event: string, key?: string): string {
+    if (!this._scrubPii) return value;
+    const result = scrubUrl(value, this._scrubbedQueryParams);
+    if (result.redacted) {
+      this.debugLog(
+        key
+          ? `Redacted personal data in argument "${key}" of event "${event}".`
+          : `Redacted personal data in arguments of event "${event}".`
+      );
+    }
+    return result.value;
+  }
+
+  /**
+   * Convert argument values to their canonical string form. Null values
+   * are left out, which also removes a super property for one event.
+   */
+  protected formatArguments(
+    args: Record<string, ArgValue | undefined>
+  ): Record<string, string> {
+    const formatted: Record<string, string> = {};
+    for (const key of Object.keys(args)) {
+      const value = args[key];
+      if (value === null || value === undefined) continue;
+      formatted[key] =
+        typeof value === "string" ? value : this.stringForArgument(value);
+    }
+    return formatted;
+  }
+
+  protected scrubArguments(
+    args: Record<string, string>,
+    event: string
+  ): Record<string, string> {
+    const scrubbed: Record<string, string> = {};
+    for (const key of Object.keys(args)) {
+      scrubbed[key] = this.scrub(args[key], event, key);
+    }
+    return scrubbed;
+  }
+
+  protected safeArguments(
+    args: Record<string, string>
+  ): Record<string, string> {
+    const safeArgs: Record<string, string> = {};
+    for (const key of Object.keys(args)) {
+      safeArgs[this.safe(key, false)] = this.safe(args[key], false);
+    }
+    return safeArgs;
+  }
+
+  /**
+   * Register super properties that are added to every event. Arguments
+   * passed to a log call take precedence over super properties. Values are
+   * stored in their canonical string form.
+   * @param properties Properties to add or overwrite
+   */
+  register(properties: Record<string, ArgValue>) {
+    this._superProperties = {
+      ...this._superProperties,
+      ...this.formatArguments(properties),
+    };
+    this.saveSuperProperties().catch(console.error);
+  }
+
+  /**
+   * Register super properties without overwriting existing ones
+   * @param properties Properties to add if not yet registered
+   */
+  registerOnce(properties: Record<string, ArgValue>) {
+    this._superProperties = {
+      ...this.formatArguments(properties),
+      ...this._superProperties,
+    };
+    this.saveSuperProperties().catch(console.error);
+  }
+
+  /**
+   * Remove a super property
+   * @param key Name of the property to remove
+   */
+  unregister(key: string) {
+    const { [key]: _, ...rest } = this._superProperties;
+    this._superProperties = rest;
+    this.saveSuperProperties().catch(console.error);
+  }
+
+  /**
+   * Get all registered super properties
+   * @returns A copy of the registered super properties
+   */
+  getSuperProperties(): Record<string, string> {
+    return { ...this._superProperties };
+  }
+
+  /**
+   * Set the user's tracking consent. While consent is pending, events are
+   * only kept in memory. Granting consent releases them, denying it drops
+   * them and wipes the persisted queue.
+   * @param consent The new consent state
+   */
+  setConsent(consent: ConsentState) {
+    this.setConsentAsync(consent).catch(console.error);
+  }
+
+  /**
+   * Set the user's tracking consent
+   * @param consent The new consent state
+   */
+  async setConsentAsync(consent: ConsentState) {
+    const changed = consent !== this.getConsent();
+    this._consent = consent;
+    // Before handing off events, so other instances accept them
+    if (changed) this.shareConsent(consent);
+    await this.asyncStorage.setItem("tools.quanta.consent", consent);
+
+    if (consent === "granted") {
+      await this.persistIdentity();
+      await this.saveSuperProperties();
+      await this.saveSession();
+      await this.saveAbSticky();
+      await this.saveAbOverrides();
+      await this.saveAbExposures();
+      // Followers hand their events to the instance that owns the queue
+      this._handOffBacklog.push(...this._pendingEvents);
+      this._pendingEvents = [];
+      await this.drainHandOffBacklog();
+      this.processQueue().catch(console.error);
+    } else if (consent === "denied") {
+      this._pendingEvents = [];
+      await this.clearQueue();
+      this.saveSharedIdentity(null);
+    }
+  }
+
+  /**
+   * Get the user's tracking consent
+   * @returns The current consent state
+   */
+  getConsent(): ConsentState {
+    return this._consent ?? this._defaultConsent;
+  }
+
   /**
    * Get the result of an AB test for an experiment
    * @param experimentName The name of the experiment
@@ -310,7 +921,7 @@ export abstract class AbstractQuantaBase {
       this.initialize();
       return "A";
     }
-    return this._abDict[experimentName.toLowerCase()] || "A";
+    return this.variantFor(experimentName);
   }
 
   /**
@@ -322,91 +933,367 @@ export abstract class AbstractQuantaBase {
     if (!this._initialized) {
       await this.initializeAsync();
     }
-    return this._abDict[experimentName.toLowerCase()] || "A";
+    return this.variantFor(experimentName);
   }
 
   /**
-   * Set the user ID
-   * @param id User ID
+   * Force a variant of an experiment on this device, e.g. for QA. Overrides
+   * are not sent upstream and don't log exposure events.
+   * @param experimentName The name of the experiment
+   * @param variant The variant letter, or null to remove the override
    */
-  setId(id: string) {
-    this.setIdAsync(id).catch(console.error);
+  overrideVariant(experimentName: string, variant: string | null) {
+    const name = experimentName.toLowerCase();
+    if (variant) {
+      this._abOverrides = {
+        ...this._abOverrides,
+        [name]: variant.toUpperCase(),
+      };
+    } else {
+      const { [name]: _, ...rest } = this._abOverrides;
+      this._abOverrides = rest;
+    }
+    this.saveAbOverrides().catch(console.error);
+    this.notifyAbChange();
   }
 
   /**
-   * Set the user ID
-   * @param id User ID
+   * Subscribe to changes of A/B assignments, e.g. when the ingress sends
+   * updated experiments or an override is set
+   * @param listener Called with the variant of every known experiment
+   * @returns A function that removes the listener
    */
-  async setIdAsync(id: string) {
-    if (this._id !== "") return;
-    let shortId = id;
-    if (this.isValidUUID(shortId)) {
-      shortId = this.shortenUuid(shortId);
-    }
-    this._id = shortId;
-    await this.asyncStorage.setItem("tools.quanta.id", this._id);
-    if (this._id.length !== 22) {
-      this.debugWarn(
-        `The ID ${this._id} does not look like a valid UUID or Quanta ID. Only use UUIDs or shortened Quanta IDs as user IDs.`
-      );
-    }
+  onAbChange(listener: (variants: Record<string, string>) => void) {
+    this._abListeners.push(listener);
+    return () => {
+      this._abListeners = this._abListeners.filter((l) => l !== listener);
+    };
   }
 
   /**
-   * Get the current user ID
-   * @returns User ID
+   * Forget the stored A/B assignments and exposures, and assign variants
+   * again from the current experiments. Overrides are kept.
    */
-  getId(): string {
-    return this._id;
+  resetAbAssignments() {
+    this.resetAbAssignmentsAsync().catch(console.error);
   }
 
-  // Private methods
-
-  protected async loadOrCreateId() {
-    const storedId = await this.asyncStorage.getItem("tools.quanta.id");
-    if (storedId) {
-      return storedId;
-    }
-    const newId = this.shortenUuid(this.generateUuid());
-    await this.asyncStorage.setItem("tools.quanta.id", newId);
-    return newId;
+  /**
+   * Forget the stored A/B assignments and exposures, and assign variants
+   * again from the current experiments. Overrides are kept.
+   */
+  async resetAbAssignmentsAsync() {
+    this._abSticky = {};
+    this._abExposures = {};
+    await this.saveAbExposures();
+    const abJson = (await this.asyncStorage.getItem("tools.quanta.ab")) || "";
+    this.setAbJson(abJson);
+    await this.saveAbSticky();
   }
 
-  protected async loadOrCreateInstallDate() {
-    const storedDate = await this.asyncStorage.getItem("tools.quanta.install");
-    if (storedDate) {
-      return parseInt(storedDate, 10);
-    }
-    const now = Math.floor(Date.now() / 1000);
-    await this.asyncStorage.setItem("tools.quanta.install", now.toString());
-    return now;
+  /**
+   * Get the current session
+   * @returns The session, or null if none is active
+   */
+  getSession(): QuantaSession | null {
+    const session = this._session;
+    if (!session || session.ended) return null;
+    if (this.now() - session.lastActivity > this._sessionTimeout) return null;
+    return {
+      id: session.id,
+      start: new Date(session.start),
+      count: session.count,
+    };
   }
 
-  abstract systemLanguageProvider(): string;
-
-  abstract getBundleId(): string;
-
-  abstract getVersion(): string;
+  /**
+   * Whether initialization finished, including loading A/B assignments
+   */
+  isInitialized(): boolean {
+    return this._initialized;
+  }
 
-  protected getUserData(): string {
-    const device = this.getDeviceInfo();
-    const os = this.getOSInfoSafe();
-    const bundleId = this.getBundleId();
-    const debugFlags = this.getDebugFlags();
-    const version = this.getVersion();
-    const language = this.systemLanguageProvider().replace("-", "_");
+  protected variantFor(experimentName: string): string {
+    const name = experimentName.toLowerCase();
+    const override = this._abOverrides[name];
+    if (override) return override;
 
-    let userData = "";
-    userData += `${this._id}`;
-    userData += `${RECORD_SEPARATOR}${this.safe(device)}`;
-    userData += `${RECORD_SEPARATOR}${this.safe(os)}`;
-    userData += `${RECORD_SEPARATOR}${this.safe(bundleId)}`;
-    userData += `${RECORD_SEPARATOR}${debugFlags}`;
-    userData += `${RECORD_SEPARATOR}${this.safe(version)}`;
-    userData += `${RECORD_SEPARATOR}${language}`;
-    userData += `${RECORD_SEPARATOR}${this._installDate}`;
+    const variant = this._abDict[name];
+    if (variant) {
+      this.rememberVariant(name, variant);
+      this.logExposure(name, variant).catch(console.error);
+    }
+    return variant || "A";
+  }
 
-    return userData;
+  /**
+   * Store the variant a user was exposed to, so reweighting the experiment
+   * doesn't move them. Users who never saw it follow the new weights.
+   */
+  protected rememberVariant(experiment: string, variant: string) {
+    if (this._abSticky[experiment] === variant) return;
+    this._abSticky = { ...this._abSticky, [experiment]: variant };
+    this.saveAbSticky().catch(console.error);
+  }
+
+  /**
+   * Log that the user saw a variant, once per experiment
+   */
+  protected async logExposure(experiment: string, variant: string) {
+    if (!this._abExposureEvents) return;
+    if (this._abExposures[experiment] === variant) return;
+    this._abExposures = { ...this._abExposures, [experiment]: variant };
+    await this.saveAbExposures();
+    await this.logEventAsync("exposure", 0, { experiment, variant });
+  }
+
+  /**
+   * Set the user ID
+   * @param id User ID
+   * @deprecated Use identify() instead
+   */
+  setId(id: string) {
+    this.setIdAsync(id).catch(console.error);
+  }
+
+  /**
+   * Set the user ID
+   * @param id User ID
+   * @deprecated Use identifyAsync() instead
+   */
+  async setIdAsync(id: string) {
+    await this.identifyAsync(id);
+  }
+
+  /**
+   * Switch to a known user ID, e.g. after login. Logs a link event that
+   * ties the previous anonymous ID to the known one.
+   * @param userId A UUID or shortened Quanta ID
+   */
+  identify(userId: string) {
+    this.identifyAsync(userId).catch(console.error);
+  }
+
+  /**
+   * Switch to a known user ID, e.g. after login
+   * @param userId A UUID or shortened Quanta ID
+   */
+  async identifyAsync(userId: string) {
+    if (!this._initialized) {
+      await this.initializeAsync();
+    }
+
+    const id = this.normalizeId(userId);
+    if (id === this._id) return;
+
+    const previousId = this._id;
+    this._id = id;
+    this._knownId = id;
+    await this.persistIdentity();
+    await this.logEventAsync("link", 0, { anonymous_id: previousId });
+  }
+
+  /**
+   * Shorten a UUID to a Quanta ID, warning about IDs that are neither
+   */
+  protected normalizeId(userId: string): string {
+    let id = userId;
+    if (this.isValidUUID(id)) {
+      id = this.shortenUuid(id);
+    }
+    if (id.length !== 22) {
+      this.debugWarn(
+        `The ID ${id} does not look like a valid UUID or Quanta ID. Only use UUIDs or shortened Quanta IDs as user IDs.`
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Start over with a fresh anonymous ID, e.g. after logout. Clears super
+   * properties and A/B assignments.
+   */
+  reset() {
+    this.resetAsync().catch(console.error);
+  }
+
+  /**
+   * Start over with a fresh anonymous ID, e.g. after logout
+   */
+  async resetAsync() {
+    if (!this._initialized) {
+      await this.initializeAsync();
+    }
+
+    await this.endSession();
+    this._id = this.shortenUuid(this.generateUuid());
+    this._knownId = "";
+    await this.persistIdentity();
+
+    this._superProperties = {};
+    await this.saveSuperProperties();
+    await this.resetAbAssignmentsAsync();
+  }
+
+  /**
+   * Get the current user ID
+   * @returns User ID
+   */
+  getId(): string {
+    return this._id;
+  }
+
+  // Private methods
+
+  protected async loadConsent(): Promise<ConsentState> {
+    const stored = await this.asyncStorage.getItem("tools.quanta.consent");
+    if (stored === "granted" || stored === "denied" || stored === "pending") {
+      return stored;
+    }
+    return this._defaultConsent;
+  }
+
+  protected async loadOrCreateId() {
+    // A known ID may outlive the anonymous one, e.g. in the iOS keychain
+    this._knownId =
+      (await this.asyncStorage.getItem("tools.quanta.knownId")) || "";
+    if (this._knownId) {
+      return this._knownId;
+    }
+    // Another site of the same domain may have created the ID
+    const shared = this.loadSharedIdentity();
+    if (shared) {
+      if (this.getConsent() === "granted") {
+        await this.asyncStorage.setItem("tools.quanta.id", shared.id);
+      }
+      return shared.id;
+    }
+    const storedId = await this.asyncStorage.getItem("tools.quanta.id");
+    if (storedId) {
+      return storedId;
+    }
+    const newId = this.shortenUuid(this.generateUuid());
+    // Without consent the ID only lives in memory
+    if (this.getConsent() === "granted") {
+      await this.asyncStorage.setItem("tools.quanta.id", newId);
+    }
+    return newId;
+  }
+
+  protected async loadOrCreateInstallDate() {
+    const shared = this.loadSharedIdentity();
+    if (shared?.installDate) {
+      return shared.installDate;
+    }
+    const storedDate = await this.asyncStorage.getItem("tools.quanta.install");
+    if (storedDate) {
+      return parseInt(storedDate, 10);
+    }
+    const now = Math.floor(this.now() / 1000);
+    if (this.getConsent() === "granted") {
+      await this.asyncStorage.setItem("tools.quanta.install", now.toString());
+    }
+    return now;
+  }
+
+  /**
+   * Write the in-memory user IDs and install date to storage, once consent
+   * is granted
+   */
+  protected async persistIdentity() {
+    if (this.getConsent() !== "granted") return;
+    if (this._id) {
+      await this.asyncStorage.setItem("tools.quanta.id", this._id);
+    }
+    await this.asyncStorage.setItem("tools.quanta.knownId", this._knownId);
+    if (this._installDate) {
+      await this.asyncStorage.setItem(
+        "tools.quanta.install",
+        this._installDate.toString()
+      );
+    }
+    this.shareIdentity();
+  }
+
+  /**
+   * Continue with the ID of the site that linked here, unless the user is
+   * already identified
+   */
+  protected async adoptLinkedId() {
+    const linkedId = this.takeLinkedId();
+    if (!linkedId || linkedId === this._id) return;
+    if (this._knownId) {
+      this.debugLog("Ignoring the linked ID of an identified user.");
+      return;
+    }
+    this._id = linkedId;
+    await this.persistIdentity();
+    this.debugLog(`Adopted the linked ID ${linkedId}.`);
+  }
+
+  /**
+   * User ID passed by a linked site, e.g. in a URL parameter
+   * @returns The ID, or null if there is none
+   */
+  protected takeLinkedId(): string | null {
+    return null;
+  }
+
+  /**
+   * Share the ID and install date with other sites of the same domain, if
+   * a cookie domain is configured and the user consented
+   */
+  protected shareIdentity() {
+    if (this.getConsent() !== "granted" || !this._id) return;
+    this.saveSharedIdentity({ id: this._id, installDate: this._installDate });
+  }
+
+  /**
+   * Identity shared by sites of the same domain, e.g. in a cookie
+   * @returns The shared identity, or null if there is none
+   */
+  protected loadSharedIdentity(): SharedIdentity | null {
+    return null;
+  }
+
+  /**
+   * Share the identity with sites of the same domain
+   * @param identity The identity, or null to remove it
+   */
+  protected saveSharedIdentity(_identity: SharedIdentity | null): void {}
+
+  abstract systemLanguageProvider(): string;
+
+  abstract getBundleId(): string;
+
+  abstract getVersion(): string;
+
+  /**
+   * @param user Log for another user instead, e.g. on a server
+   */
+  protected getUserData(user?: QuantaUser): string {
+    const device = user?.device ?? this.getDeviceInfo();
+    const os = user?.os?.slice(0, 25) ?? this.getOSInfoSafe();
+    const bundleId = user?.bundleId ?? this.getBundleId();
+    const debugFlags = this.getDebugFlags();
+    const version = user?.version ?? this.getVersion();
+    const language = (user?.language ?? this.systemLanguageProvider()).replace(
+      "-",
+      "_"
+    );
+    const installDate = user?.installDate ?? this._installDate;
+
+    let userData = "";
+    userData += `${user ? this.normalizeId(user.id) : this._id}`;
+    userData += `${RECORD_SEPARATOR}${this.safe(device)}`;
+    userData += `${RECORD_SEPARATOR}${this.safe(os)}`;
+    userData += `${RECORD_SEPARATOR}${this.safe(bundleId)}`;
+    userData += `${RECORD_SEPARATOR}${debugFlags}`;
+    userData += `${RECORD_SEPARATOR}${this.safe(version)}`;
+    userData += `${RECORD_SEPARATOR}${language}`;
+    userData += `${RECORD_SEPARATOR}${installDate}`;
+
+    return userData;
   }
 
   abstract getDeviceInfo(): string;
@@ -456,65 +1343,297 @@ export abstract class AbstractQuantaBase {
       : formatted;
   }
 
+  /**
+   * Canonical form of non-string argument values: plain decimals with up to
+   * 6 fraction digits, true/false and epoch seconds
+   */
+  protected stringForArgument(value: number | boolean | Date): string {
+    if (typeof value === "boolean") return value ? "true" : "false";
+    if (value instanceof Date) {
+      return Math.floor(value.getTime() / 1000).toString();
+    }
+    if (!isFinite(value)) return String(value);
+    if (Math.abs(value) >= 1e21) {
+      // toFixed switches to exponent notation for large values
+      const [mantissa, exponent] = String(value).split("e+");
+      const [whole, fraction = ""] = mantissa.split(".");
+      return whole + fraction + "0".repeat(Number(exponent) - fraction.length);
+    }
+    const formatted = value
+      .toFixed(6)
+      .replace(/(\.\d*?)0+$/, "$1")
+      .replace(/\.$/, "");
+    // Tiny negative values round to "-0"
+    return formatted === "-0" ? "0" : formatted;
+  }
+
   protected async enqueueEvent(event: EventTask) {
-    this._queue.push(event);
-    await this.saveQueue();
+    const consent = this.getConsent();
+    if (consent === "denied") return;
+    if (consent === "pending") {
+      this._pendingEvents.push(event);
+      return;
+    }
+
+    if (!this.isQueueLeader()) {
+      // Another instance owns the persisted queue
+      if (!this.handOffEvents([event])) {
+        this._handOffBacklog.push(event);
+      }
+      return;
+    }
+
+    await this._queue.push(event);
 
+    // Not awaited, logging must not wait for delivery or the network
     if (!this._isProcessing) {
-      await this.processQueue();
+      this.processQueue().catch(console.error);
     }
   }
 
   protected async processQueue(): Promise<void> {
     if (this._isProcessing || this._queue.length === 0) return;
+    if (this.getConsent() !== "granted" || !this.isQueueLeader()) return;
 
     this._isProcessing = true;
     let failures = 0;
 
     while (this._queue.length > 0) {
+      // Another tab took over the queue
+      if (!this.isQueueLeader()) break;
+
+      // Events handed to a beacon are already on their way
+      const beaconed = this._queue.tasks.filter((task) => task.beaconed);
+      if (beaconed.length > 0) {
+        await this._queue.remove(beaconed);
+        continue;
+      }
+
+      // Don't burn retries while there is no connection
+      if (!this._online) {
+        await this.waitForNetwork();
+        failures = 0;
+        continue;
+      }
+
       // Handle exponential backoff for failures
       if (failures > 0) {
         const delay = Math.pow(1.5, failures - 1) * 500;
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        await this.waitForNetwork(delay);
       }
 
-      const success = await this.sendEvent(this._queue[0]);
+      const batch = this.nextBatch();
+      this._inFlight = batch;
+      const results =
+        batch.length === 1
+          ? [await this.sendEvent(batch[0])]
+          : await this.sendBatch(batch);
+      this._inFlight = [];
+      this.notifyPlugins(
+        true,
+        batch.filter((_, idx) => results[idx])
+      );
+      this.notifyPlugins(
+        false,
+        batch.filter((_, idx) => !results[idx])
+      );
+
+      // Failures caused by losing the connection don't count
+      if (!this._online) continue;
 
       // ~4 hours = 27 failures
       // cancel if older than 48h
-      const eventAge =
-        (Date.now() - this._queue[0].time.getTime()) / (1000 * 60 * 60);
+      const finished = batch.filter((task, idx) => {
+        const eventAge = (this.now() - task.time.getTime()) / (1000 * 60 * 60);
+        const taskFailures = task.failures ?? 0;
+        if (results[idx] || taskFailures >= 27 || eventAge > 48) {
+          return true;
+        }
+        task.failures = taskFailures + 1;
+        return false;
+      });
 
-      if (success || failures >= 27 || eventAge > 48) {
-        this._queue.shift();
-        failures = 0;
-        await this.saveQueue();
-      } else {
-        failures++;
+      if (finished.length > 0) {
+        await this._queue.remove(finished);
       }
+      failures = finished.length === batch.length ? 0 : failures + 1;
 
       // Small pause between attempts
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      await this.sleep(100);
     }
 
     this._isProcessing = false;
   }
 
-  protected async sendEvent(event: EventTask): Promise<boolean> {
+  /**
+   * Subscribe to connectivity changes of the configured network adapter
+   */
+  protected async watchNetwork() {
+    this._unwatchNetwork?.();
+    this._unwatchNetwork = null;
+
+    const network = this._network ?? this.defaultNetworkAdapter();
+    if (!network) return;
+
+    this._unwatchNetwork = network.subscribe((online) =>
+      this.setOnline(online)
+    );
     try {
-      const url = "https://analytics-ingress.quanta.tools/ee/";
+      this.setOnline(await network.isOnline());
+    } catch (e) {
+      this.debugWarn("Failed to read network state:", e);
+    }
+  }
+
+  /**
+   * Network adapter used when none is configured
+   */
+  protected defaultNetworkAdapter(): NetworkAdapter | null {
+    return null;
+  }
 
-      let body = "";
-      body += event.appId;
-      body += `${RECORD_SEPARATOR}${Math.floor(event.time.getTime() / 1000)}`;
-      body += `${RECORD_SEPARATOR}${event.event}`;
-      body += `${RECORD_SEPARATOR}${event.revenue}`;
-      body += `${RECORD_SEPARATOR}${event.addedArguments}`;
-      body += `${RECORD_SEPARATOR}${event.userData}`;
-      if (event.abLetters) {
-        body += `${RECORD_SEPARATOR}${event.abLetters}`;
+  protected setOnline(online: boolean) {
+    if (this._online === online) return;
+    this._online = online;
+    this.debugLog(online ? "Quanta is online" : "Quanta is offline");
+    if (!online) return;
+
+    // Resume delivery right away
+    const waiters = this._networkWaiters;
+    this._networkWaiters = [];
+    waiters.forEach((wake) => wake());
+    this.processQueue().catch(console.error);
+  }
+
+  /**
+   * Current time in milliseconds, overridden by tests to control the clock
+   */
+  protected now(): number {
+    return Date.now();
+  }
+
+  protected sleep(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Wait until the connection comes back
+   * @param timeout Stop waiting after this many milliseconds
+   */
+  protected waitForNetwork(timeout?: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const wake = () => {
+        this._networkWaiters = this._networkWaiters.filter((w) => w !== wake);
+        resolve();
+      };
+      this._networkWaiters.push(wake);
+      if (timeout !== undefined) this.sleep(timeout).then(wake);
+    });
+  }
+
+  /**
+   * Take as many events from the head of the queue as fit into one request
+   */
+  protected nextBatch(
+    tasks: readonly EventTask[] = this._queue.tasks
+  ): EventTask[] {
+    const batch: EventTask[] = [];
+    let bytes = 0;
+
+    for (const task of tasks) {
+      if (batch.length >= this._maxBatchSize) break;
+      const taskBytes = byteLength(this.encodeEvent(task)) + 1;
+      if (batch.length > 0 && bytes + taskBytes > this._maxBatchBytes) break;
+      batch.push(task);
+      bytes += taskBytes;
+    }
+
+    return batch;
+  }
+
+  /**
+   * Hand all pending events to a delivery mechanism that survives the page
+   * being unloaded, e.g. navigator.sendBeacon. Events that were handed off
+   * are marked so they are not sent again from the persisted queue.
+   *
+   * Beacons report no delivery result, so events are only handed off while
+   * online, and events that already failed stay in the queue for retries.
+   * @param send Delivers a request body, returns whether it was accepted
+   */
+  protected flushOnExit(send: (url: string, body: string) => boolean) {
+    if (this.getConsent() !== "granted" || !this._online) return;
+
+    let pending = this._queue.tasks.filter(
+      (task) =>
+        !task.beaconed && !task.failures && !this._inFlight.includes(task)
+    );
+    const beaconed: EventTask[] = [];
+
+    while (pending.length > 0) {
+      const batch = this.nextBatch(pending);
+      const body = batch.map((task) => this.encodeEvent(task));
+      const accepted =
+        batch.length === 1
+          ? send(`${this._ingressUrl}/ee/`, body[0])
+          : send(`${this._ingressUrl}/eb/`, body.join(GROUP_SEPARATOR));
+      if (!accepted) break;
+
+      for (const task of batch) {
+        task.beaconed = true;
+        beaconed.push(task);
       }
+      pending = pending.slice(batch.length);
+    }
 
+    // Not awaited: there may be no next tick before the page goes away
+    this._queue.update(beaconed).catch(() => {});
+  }
+
+  protected encodeEvent(event: EventTask): string {
+    let body = "";
+    body += event.appId;
+    body += `${RECORD_SEPARATOR}${Math.floor(event.time.getTime() / 1000)}`;
+    body += `${RECORD_SEPARATOR}${event.event}`;
+    body += `${RECORD_SEPARATOR}${event.revenue}`;
+    body += `${RECORD_SEPARATOR}${event.addedArguments}`;
+    body += `${RECORD_SEPARATOR}${event.userData}`;
+    if (event.abLetters) {
+      body += `${RECORD_SEPARATOR}${event.abLetters}`;
+    }
+    return body;
+  }
+
+  protected async sendEvent(event: EventTask): Promise<boolean> {
+    const response = await this.postToIngress("ee", this.encodeEvent(event));
+    return !!response?.ok;
+  }
+
+  /**
+   * Send multiple events in one request
+   * @returns Whether each event was accepted, in batch order
+   */
+  protected async sendBatch(events: EventTask[]): Promise<boolean[]> {
+    const body = events
+      .map((event) => this.encodeEvent(event))
+      .join(GROUP_SEPARATOR);
+    const response = await this.postToIngress("eb", body);
+    if (!response?.ok) {
+      return events.map(() => false);
+    }
+
+    // The ingress lists the indices of events it could not accept
+    const rejected = (response.headers.get("X-Rejected") || "")
+      .split(",")
+      .filter((index) => index.trim() !== "")
+      .map((index) => parseInt(index, 10));
+    return events.map((_, idx) => !rejected.includes(idx));
+  }
+
+  protected async postToIngress(
+    endpoint: string,
+    body: string
+  ): Promise<TransportResponse | null> {
+    try {
       const headers: Record<string, string> = {
         "Content-Type": "text/plain",
       };
@@ -526,7 +1645,8 @@ export abstract class AbstractQuantaBase {
         headers["X-AB-Version"] = abVersion;
       }
 
-      const response = await fetch(url, {
+      const response = await this._transport.send({
+        url: `${this._ingressUrl}/${endpoint}/`,
         method: "POST",
         headers,
         body,
@@ -550,46 +1670,359 @@ export abstract class AbstractQuantaBase {
         } catch (e) {
           // Ignore parsing errors
         }
-        return true;
       }
-      return false;
+      return response;
     } catch (error) {
       this.debugError("Failed to send event:", error);
-      return false;
+      return null;
     }
   }
 
-  protected async saveQueue() {
+  protected async saveSuperProperties() {
+    if (this.getConsent() !== "granted") return;
     try {
       await this.asyncStorage.setItem(
-        "tools.quanta.queue.tasks",
-        JSON.stringify(this._queue)
+        "tools.quanta.props",
+        JSON.stringify(this._superProperties)
       );
     } catch (e) {
-      this.debugWarn("Failed to save queue to storage:", e);
+      this.debugWarn("Failed to save super properties to storage:", e);
     }
   }
 
-  protected async loadQueue() {
+  /**
+   * Load variant overrides from storage and the platform, e.g. the URL
+   */
+  protected async loadAbOverrides() {
+    try {
+      const stored = await this.asyncStorage.getItem(
+        "tools.quanta.ab.overrides"
+      );
+      if (stored) {
+        this._abOverrides = { ...JSON.parse(stored), ...this._abOverrides };
+      }
+    } catch (e) {
+      this.debugWarn("Failed to load AB overrides from storage:", e);
+    }
+
+    const overrides = this.getAbOverridesFromPlatform();
+    if (Object.keys(overrides).length > 0) {
+      this._abOverrides = { ...this._abOverrides, ...overrides };
+      await this.saveAbOverrides();
+    }
+  }
+
+  protected async saveAbOverrides() {
+    if (this.getConsent() !== "granted") return;
+    try {
+      await this.asyncStorage.setItem(
+        "tools.quanta.ab.overrides",
+        JSON.stringify(this._abOverrides)
+      );
+    } catch (e) {
+      this.debugWarn("Failed to save AB overrides to storage:", e);
+    }
+  }
+
+  /**
+   * Variant overrides set outside the SDK, e.g. a URL parameter on the web
+   */
+  protected getAbOverridesFromPlatform(): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Parse overrides in the form "experiment:B,other:C"
+   */
+  protected parseAbOverrides(value: string): Record<string, string> {
+    const overrides: Record<string, string> = {};
+    for (const pair of value.split(",")) {
+      const separator = pair.lastIndexOf(":");
+      if (separator <= 0) continue;
+      const name = pair.slice(0, separator).trim().toLowerCase();
+      const variant = pair
+        .slice(separator + 1)
+        .trim()
+        .toUpperCase();
+      if (/^[A-Z]$/.test(variant)) {
+        overrides[name] = variant;
+      }
+    }
+    return overrides;
+  }
+
+  protected async loadAbSticky(): Promise<Record<string, string>> {
+    try {
+      const stored = await this.asyncStorage.getItem("tools.quanta.ab.sticky");
+      return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+      this.debugWarn("Failed to load AB assignments from storage:", e);
+      return {};
+    }
+  }
+
+  protected async saveAbSticky() {
+    if (this.getConsent() !== "granted") return;
+    try {
+      await this.asyncStorage.setItem(
+        "tools.quanta.ab.sticky",
+        JSON.stringify(this._abSticky)
+      );
+    } catch (e) {
+      this.debugWarn("Failed to save AB assignments to storage:", e);
+    }
+  }
+
+  protected async loadAbExposures(): Promise<Record<string, string>> {
     try {
-      const queueData = await this.asyncStorage.getItem(
-        "tools.quanta.queue.tasks"
+      const stored = await this.asyncStorage.getItem(
+        "tools.quanta.ab.exposures"
       );
-      if (queueData) {
-        const parsed = JSON.parse(queueData);
-        this._queue = parsed.map((item: any) => ({
-          ...item,
-          time: new Date(item.time),
-        }));
+      return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+      this.debugWarn("Failed to load AB exposures from storage:", e);
+      return {};
+    }
+  }
+
+  protected async saveAbExposures() {
+    if (this.getConsent() !== "granted") return;
+    try {
+      await this.asyncStorage.setItem(
+        "tools.quanta.ab.exposures",
+        JSON.stringify(this._abExposures)
+      );
+    } catch (e) {
+      this.debugWarn("Failed to save AB exposures to storage:", e);
+    }
+  }
+
+  /**
+   * Record activity in the current session, starting a new one if there is
+   * none or the user was inactive for longer than the session timeout
+   */
+  protected async touchSession() {
+    const now = this.now();
+    const previous = this._session;
+    if (
+      previous &&
+      !previous.ended &&
+      now - previous.lastActivity <= this._sessionTimeout
+    ) {
+      previous.lastActivity = now;
+      await this.saveSession();
+      return;
+    }
+
+    const session: SessionState = {
+      id: this.shortenUuid(this.generateUuid()),
+      start: now,
+      lastActivity: now,
+      count: (previous?.count ?? 0) + 1,
+    };
+    this._session = session;
+    await this.saveSession();
+
+    if (previous && !previous.ended) {
+      await this.logSessionEnd(previous);
+    }
+    if (!this._sessionEvents) return;
+    await this.logEventAsync(
+      "session_start",
+      0,
+      { session_id: session.id, session: session.count },
+      new Date(now)
+    );
+  }
+
+  /**
+   * End the current session, e.g. when the app goes to the background
+   */
+  protected async endSession() {
+    const session = this._session;
+    if (!session || session.ended) return;
+    session.ended = true;
+    await this.saveSession();
+    await this.logSessionEnd(session);
+  }
+
+  protected async logSessionEnd(session: SessionState) {
+    if (!this._sessionEvents) return;
+    await this.logEventAsync(
+      "session_end",
+      0,
+      {
+        session_id: session.id,
+        session: session.count,
+        duration: Math.round((session.lastActivity - session.start) / 1000),
+      },
+      new Date(session.lastActivity)
+    );
+  }
+
+  protected sessionArguments(): Record<string, ArgValue> {
+    const session = this._session;
+    if (!this._sessionArgument || !session || session.ended) return {};
+    return { session: session.count };
+  }
+
+  protected async loadSession() {
+    try {
+      const stored = await this.asyncStorage.getItem("tools.quanta.session");
+      this._session = stored ? JSON.parse(stored) : null;
+    } catch (e) {
+      this.debugWarn("Failed to load session from storage:", e);
+    }
+  }
+
+  protected async saveSession() {
+    if (this.getConsent() !== "granted" || !this._session) return;
+    try {
+      await this.asyncStorage.setItem(
+        "tools.quanta.session",
+        JSON.stringify(this._session)
+      );
+    } catch (e) {
+      this.debugWarn("Failed to save session to storage:", e);
+    }
+  }
+
+  protected async loadSuperProperties() {
+    try {
+      const stored = await this.asyncStorage.getItem("tools.quanta.props");
+      if (stored) {
+        this._superProperties = {
+          ...JSON.parse(stored),
+          ...this._superProperties,
+        };
       }
     } catch (e) {
-      this.debugWarn("Failed to load queue from storage:", e);
+      this.debugWarn("Failed to load super properties from storage:", e);
+    }
+  }
+
+  protected async clearQueue() {
+    await this._queue.clear();
+  }
+
+  protected async loadQueue() {
+    await this._queue.load();
+  }
+
+  /**
+   * Decide whether this instance owns the persisted queue. Platforms where
+   * several instances share storage, like browser tabs, override this.
+   */
+  protected async electQueueLeader(): Promise<void> {}
+
+  /**
+   * Whether this instance owns the persisted queue and sends events
+   */
+  protected isQueueLeader(): boolean {
+    return true;
+  }
+
+  /**
+   * Pass events to the instance that owns the persisted queue
+   * @returns Whether the events were handed off
+   */
+  protected handOffEvents(_tasks: EventTask[]): boolean {
+    return false;
+  }
+
+  /**
+   * Tell other instances that share the storage about a consent change
+   */
+  protected shareConsent(_consent: ConsentState) {}
+
+  /**
+   * Apply a consent change made by another instance
+   */
+  protected async receiveConsent(consent: ConsentState) {
+    if (consent === this.getConsent()) return;
+    await this.setConsentAsync(consent);
+  }
+
+  /**
+   * Take over the persisted queue, e.g. after the previous owner went away
+   */
+  protected async takeOverQueue() {
+    await this._queue.reload();
+    await this.drainHandOffBacklog();
+    await this.processQueue();
+  }
+
+  /**
+   * Queue events handed off by another instance
+   */
+  protected async receiveEvents(tasks: EventTask[]) {
+    const consent = this.getConsent();
+    if (consent === "denied") return;
+    if (consent === "pending") {
+      // The consent change may not have reached this instance yet
+      this._pendingEvents.push(...tasks);
+      return;
+    }
+    if (!this.isQueueLeader()) return;
+    await this._queue.push(...tasks);
+    await this.processQueue();
+  }
+
+  /**
+   * Queue or hand off events logged before this instance knew its role
+   */
+  protected async drainHandOffBacklog() {
+    const backlog = this._handOffBacklog;
+    if (backlog.length === 0) return;
+    this._handOffBacklog = [];
+
+    if (this.isQueueLeader()) {
+      await this._queue.push(...backlog);
+    } else if (!this.handOffEvents(backlog)) {
+      this._handOffBacklog = backlog.concat(this._handOffBacklog);
+    }
+  }
+
+  /**
+   * Report events the queue had to drop to stay within its limits
+   */
+  protected handleDroppedEvents(events: EventTask[], reason: DropReason) {
+    this.debugWarn(
+      reason === "queue-full"
+        ? `Event queue is full, dropped ${events.length} event(s).`
+        : `Storage is full, dropped ${events.length} queued event(s).`
+    );
+    for (const plugin of this._plugins) {
+      try {
+        plugin.onDrop?.(events, reason);
+      } catch (e) {
+        this.debugError(`Plugin ${plugin.name ?? ""} failed:`, e);
+      }
     }
   }
 
   protected setAbJson(abJson: string) {
+    const previous = JSON.stringify(this._abDict);
+    const previousSticky = JSON.stringify(this._abSticky);
     this._abLetters = this.getAbLetters(abJson);
     this._abDict = this.getAbDict(abJson);
+    if (JSON.stringify(this._abSticky) !== previousSticky) {
+      this.saveAbSticky().catch(console.error);
+    }
+    if (JSON.stringify(this._abDict) !== previous) {
+      this.notifyAbChange();
+    }
+  }
+
+  protected notifyAbChange() {
+    const variants = { ...this._abDict, ...this._abOverrides };
+    for (const listener of this._abListeners) {
+      try {
+        listener(variants);
+      } catch (e) {
+        this.debugError("A/B change listener failed:", e);
+      }
+    }
   }
 
   protected getAbLetters(abJson: string): string {
@@ -598,21 +2031,38 @@ export abstract class AbstractQuantaBase {
     try {
       const experiments: ABExperiment[] = JSON.parse(abJson);
       let abLetters = "";
+      const sticky: Record<string, string> = {};
 
       for (const exp of experiments) {
-        const key = `${this._id}.${exp.name[exp.name.length - 1] || ""}`;
-        const int = this.stringToNumber(key);
+        const name = exp.name[exp.name.length - 1] || "";
+
+        // Keep variants users were exposed to, even if reweighted
+        const stored = exp.name
+          .map((alias) => alias.toLowerCase())
+          .filter((alias) => this._abSticky[alias]);
+        const variant = stored.length > 0 ? this._abSticky[stored[0]] : "";
+        if (variant && AB_LETTERS.indexOf(variant) < exp.variants.length) {
+          abLetters += variant;
+          for (const alias of stored) {
+            sticky[alias] = variant;
+          }
+          continue;
+        }
+
+        const int = this.stringToNumber(`${this._id}.${name}`);
         let limit = 0;
 
         for (let idx = 0; idx < exp.variants.length; idx++) {
           limit += exp.variants[idx];
           if (limit > int) {
-            abLetters += "ABCDEFGHIJKLMNOPQRSTUVWXYZ"[idx];
+            abLetters += AB_LETTERS[idx];
             break;
           }
         }
       }
 
+      // Assignments of experiments that ended are forgotten
+      this._abSticky = sticky;
       return abLetters;
     } catch (e) {
       this.debugWarn("Failed to parse AB test JSON:", e);
@@ -731,12 +2181,13 @@ export abstract class AbstractQuantaBase {
     if (!this._appId) return;
 
     try {
-      const response = await fetch(
-        `https://quanta.tools/api/claimed/${this._appId}`
-      );
+      const response = await this._transport.send({
+        url: `${this._apiUrl}/api/claimed/${this._appId}`,
+        method: "GET",
+      });
       if (!response.ok) return;
 
-      const data = await response.json();
+      const data = JSON.parse(await response.text());
       if (!data.unClaimed) return;
 
       // App is unclaimed, show welcome message
@@ -771,7 +2222,136 @@ export abstract class AbstractQuantaBase {
 
 // Type definitions
 
-interface EventTask {
+/**
+ * Maps event names to the arguments they accept, e.g.
+ * `{ purchase: { sku: string; plan: "pro" | "team" } }`
+ */
+export type EventMap = Record<string, object>;
+
+/**
+ * Used when no event catalog is given: any event name and arguments
+ */
+export type DefaultEventMap = Record<string, Record<string, ArgValue>>;
+
+/**
+ * Argument values are serialized canonically. Null leaves the argument out.
+ */
+export type ArgValue = string | number | boolean | Date | null;
+
+export type EventName<Events extends EventMap> = Extract<keyof Events, string>;
+
+/**
+ * Arguments accepted by an event. Formatted argument strings can only be
+ * used without an event catalog.
+ */
+export type EventArguments<Events extends EventMap, E extends keyof Events> =
+  | Events[E]
+  | (string extends keyof Events ? string : never);
+
+/**
+ * Reports whether the device is online. Delivery pauses while offline.
+ */
+export interface NetworkAdapter {
+  isOnline(): Promise<boolean>;
+  /** Subscribe to connectivity changes, returns an unsubscribe function */
+  subscribe(listener: (online: boolean) => void): () => void;
+}
+
+/**
+ * Key-value storage for the user ID, settings and the event queue
+ */
+export interface StorageAdapter {
+  /** Shown by getStorageBackend() */
+  readonly name?: string;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export type ConsentState = "granted" | "denied" | "pending";
+
+export interface QuantaConfig {
+  /** Transport used for all network requests (defaults to fetch) */
+  transport?: Transport;
+  /** Base URL of the event ingress, e.g. a first-party proxy */
+  ingressUrl?: string;
+  /** Base URL of the Quanta API */
+  apiUrl?: string;
+  /** Maximum number of events sent in one request (default 50) */
+  maxBatchSize?: number;
+  /** Maximum size of one batch request body in bytes (default 64 KiB) */
+  maxBatchBytes?: number;
+  /** Maximum number of events kept in the offline queue (default 1000) */
+  maxQueueEvents?: number;
+  /** Maximum size of the offline queue in bytes (default 512 KiB) */
+  maxQueueBytes?: number;
+  /** Which events to drop first when the queue is full (default "oldest") */
+  queueEviction?: EvictionPolicy;
+  /** Reports connectivity, e.g. backed by NetInfo on React Native */
+  network?: NetworkAdapter;
+  /** Storage to use instead of the platform default. Must be set before initialization. */
+  storage?: StorageAdapter;
+  /** Start in pending consent mode until setConsent() is called */
+  requireConsent?: boolean;
+  /** Web only: share the user ID with all subdomains of this domain, e.g. ".example.com" */
+  cookieDomain?: string;
+  /** Web only: pass the user ID on links to these domains, e.g. a hosted checkout */
+  linkDomains?: string[];
+  /** Web only: log clicks and form submits declared with data-quanta-event */
+  autocapture?: boolean;
+  /** Redact emails, phone numbers and tokens from arguments (default true) */
+  scrubPii?: boolean;
+  /** Additional query parameter names whose values are redacted */
+  scrubQueryParams?: string[];
+  /**
+   * Rank of argument keys when an event exceeds 200 characters, lower ranks
+   * are shortened and dropped first. Call-site arguments rank 0 and super
+   * properties -1 by default.
+   */
+  argPriority?: Record<string, number>;
+  /** Start a new session after this many milliseconds without events (default 30 minutes) */
+  sessionTimeout?: number;
+  /** Currency that purchase revenue is reported in (default "USD") */
+  reportingCurrency?: string;
+  /** Converts purchases in other currencies to the reporting currency */
+  rateProvider?: RateProvider;
+  /** Log session_start and session_end events (default true) */
+  sessionEvents?: boolean;
+  /** Add the session number as a "session" argument to every event */
+  sessionArgument?: boolean;
+  /** Log an "exposure" event the first time a user sees a variant */
+  abExposureEvents?: boolean;
+}
+
+/**
+ * An event as seen by plugins, before it is serialized
+ */
+export interface QuantaEvent {
+  event: string;
+  revenue: number;
+  args: Record<string, ArgValue> | string;
+  time: Date;
+  /** Events with a lower priority are dropped first when the queue is full */
+  priority?: number;
+}
+
+export interface QuantaPlugin {
+  /** Name used in debug logs */
+  name?: string;
+  /** Called once the SDK is initialized, or on registration if it already is */
+  init?(quanta: AbstractQuantaBase<any>): void | Promise<void>;
+  /** Transform an event, or return null to drop it */
+  beforeSend?(
+    event: QuantaEvent
+  ): QuantaEvent | null | Promise<QuantaEvent | null>;
+  /** Called with the events the ingress accepted */
+  onSendSuccess?(events: EventTask[]): void;
+  /** Called with the events that failed to send and will be retried or dropped */
+  onSendFailure?(events: EventTask[]): void;
+  /** Called with events dropped because the queue or storage was full */
+  onDrop?(events: EventTask[], reason: DropReason): void;
+}
+
+export interface EventTask {
   appId: string;
   userData: string;
   event: string;
@@ -779,6 +2359,78 @@ interface EventTask {
   addedArguments: string;
   time: Date;
   abLetters?: string;
+  failures?: number;
+  beaconed?: boolean;
+  priority?: number;
+}
+
+export interface PurchaseDetails {
+  /** Price of a single item, in `currency` */
+  amount: number;
+  /** ISO 4217 currency code, e.g. "EUR" */
+  currency: string;
+  productId?: string;
+  /** Number of items (default 1) */
+  quantity?: number;
+  /** Additional event arguments */
+  args?: Record<string, ArgValue>;
+}
+
+export type SubscriptionPeriod = "day" | "week" | "month" | "year";
+
+export interface SubscriptionDetails extends PurchaseDetails {
+  /** Billing period */
+  period: SubscriptionPeriod;
+  /** Whether this starts a trial */
+  trial?: boolean;
+  /** Whether this renews an existing subscription */
+  renewal?: boolean;
+}
+
+export interface QuantaSession {
+  /** Random ID of the session */
+  id: string;
+  start: Date;
+  /** Number of sessions of this user so far, including this one */
+  count: number;
+}
+
+/**
+ * The user an event is logged for, when it isn't the user of this
+ * instance. Unset fields fall back to the values of this instance.
+ */
+export interface QuantaUser {
+  /** UUID or Quanta ID, e.g. `getId()` on the client */
+  id: string;
+  device?: string;
+  os?: string;
+  version?: string;
+  bundleId?: string;
+  language?: string;
+  /** Install date in epoch seconds */
+  installDate?: number;
+}
+
+export interface LogOptions {
+  /** Ranks for this event, overriding the configured ones */
+  argPriority?: Record<string, number>;
+  /** Ranks for dropping whole pairs of this event, defaults to the ranks above */
+  dropPriority?: Record<string, number>;
+  user?: QuantaUser;
+}
+
+export interface SharedIdentity {
+  id: string;
+  /** Install date in epoch seconds */
+  installDate: number;
+}
+
+interface SessionState {
+  id: string;
+  start: number;
+  lastActivity: number;
+  count: number;
+  ended?: boolean;
 }
 
 interface ABExperiment {
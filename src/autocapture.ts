@@ -0,0 +1,58 @@
+const EVENT_ATTRIBUTE = "data-quanta-event";
+const ARG_PREFIX = "data-quanta-arg-";
+const IGNORE_SELECTOR = "[data-quanta-ignore]";
+
+export type CaptureHandler = (
+  event: string,
+  args: Record<string, string>
+) => void;
+
+/**
+ * Log events declared in markup. Clicks on an element with
+ * `data-quanta-event`, or inside one, log that event, and submitting a form
+ * with the attribute logs the form's event. `data-quanta-arg-*` attributes
+ * become arguments, e.g. `data-quanta-arg-plan="pro"` adds `plan`. Nothing
+ * inside `data-quanta-ignore` is captured.
+ * @returns A function that removes the listeners
+ */
+export function watchAutocapture(root: Document, onCapture: CaptureHandler) {
+  // Capture phase, so handlers that stop propagation don't hide events
+  const click = (event: Event) => {
+    const target = event.target as Element | null;
+    // A form's event is logged when it is submitted
+    const element = target?.closest?.(`[${EVENT_ATTRIBUTE}]:not(form)`);
+    if (element && !target!.closest(IGNORE_SELECTOR)) {
+      capture(element, onCapture);
+    }
+  };
+  const submit = (event: Event) => {
+    const form = event.target as Element | null;
+    if (
+      form?.hasAttribute?.(EVENT_ATTRIBUTE) &&
+      !form.closest(IGNORE_SELECTOR)
+    ) {
+      capture(form, onCapture);
+    }
+  };
+
+  root.addEventListener("click", click, true);
+  root.addEventListener("submit", submit, true);
+  return () => {
+    root.removeEventListener("click", click, true);
+    root.removeEventListener("submit", submit, true);
+  };
+}
+
+function capture(element: Element, onCapture: CaptureHandler) {
+  const event = element.getAttribute(EVENT_ATTRIBUTE)?.trim();
+  if (!event) return;
+
+  const args: Record<string, string> = {};
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.name.startsWith(ARG_PREFIX)) {
+      const key = attribute.name.slice(ARG_PREFIX.length).replace(/-/g, "_");
+      args[key] = attribute.value;
+    }
+  }
+  onCapture(event, args);
+}
@@ -0,0 +1,81 @@
+const UNIT_SEPARATOR = "\u001F";
+const ELLIPSIS = "…";
+
+/**
+ * Values are not shortened below this length, longer ones lose their tail
+ */
+const MIN_VALUE_LENGTH = 16;
+
+export interface BudgetResult {
+  /** Serialized arguments, within the budget */
+  argString: string;
+  /** Keys whose values were shortened */
+  shortened: string[];
+  /** Keys that were left out */
+  dropped: string[];
+}
+
+/**
+ * Serialize arguments as sorted key/value pairs, separated by unit separators
+ */
+export function joinArguments(args: Record<string, string>): string {
+  return Object.keys(args)
+    .sort()
+    .map((key) => `${key}${UNIT_SEPARATOR}${args[key]}`)
+    .join(UNIT_SEPARATOR);
+}
+
+/**
+ * Serialize arguments within a character budget without cutting a pair in
+ * half. Long values are shortened with an ellipsis first, then whole pairs
+ * are dropped, both starting with the lowest ranked key.
+ * @param args Arguments, with separators already removed
+ * @param budget Maximum length of the serialized arguments
+ * @param rank Priority of a key, lower ranks are trimmed first
+ * @param dropRank Priority of a key when dropping pairs, defaults to `rank`
+ */
+export function fitArguments(
+  args: Record<string, string>,
+  budget: number,
+  rank: (key: string) => number,
+  dropRank: (key: string) => number = rank
+): BudgetResult {
+  const fitted = { ...args };
+  const shortened: string[] = [];
+  const dropped: string[] = [];
+  let argString = joinArguments(fitted);
+  if (argString.length <= budget) {
+    return { argString, shortened, dropped };
+  }
+
+  // Lowest rank first, ties in reverse alphabetical order
+  const byRank = (ranked: (key: string) => number) =>
+    Object.keys(fitted).sort(
+      (a, b) => ranked(a) - ranked(b) || (a < b ? 1 : a > b ? -1 : 0)
+    );
+
+  for (const key of byRank(rank)) {
+    const value = fitted[key];
+    const excess = argString.length - budget;
+    const length = Math.max(MIN_VALUE_LENGTH, value.length - excess);
+    if (length >= value.length) continue;
+    fitted[key] = value.slice(0, length - ELLIPSIS.length) + ELLIPSIS;
+    shortened.push(key);
+    argString = joinArguments(fitted);
+    if (argString.length <= budget) {
+      return { argString, shortened, dropped };
+    }
+  }
+
+  for (const key of byRank(dropRank)) {
+    delete fitted[key];
+    dropped.push(key);
+    argString = joinArguments(fitted);
+    if (argString.length <= budget) break;
+  }
+  return {
+    argString,
+    shortened: shortened.filter((key) => dropped.indexOf(key) < 0),
+    dropped,
+  };
+}
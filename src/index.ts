@@ -1,4 +1,34 @@
 import { Quanta } from "./quanta";
 
+export type {
+  ArgValue,
+  ConsentState,
+  DefaultEventMap,
+  EventArguments,
+  EventMap,
+  EventName,
+  EventTask,
+  NetworkAdapter,
+  PurchaseDetails,
+  QuantaConfig,
+  QuantaEvent,
+  QuantaPlugin,
+  QuantaSession,
+  StorageAdapter,
+  SubscriptionDetails,
+  SubscriptionPeriod,
+} from "./abstract";
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "./transport";
+export { fetchTransport } from "./transport";
+export { createQuanta } from "./quanta";
+export type { DropReason, EvictionPolicy } from "./queue";
+export type { RateProvider } from "./currency";
+export { isCurrencyCode } from "./currency";
+export type { StorageBackend } from "./storage";
+
 export { Quanta };
 export default Quanta;
@@ -0,0 +1,66 @@
+/** Query parameter that carries the user ID to a linked site */
+export const LINK_PARAM = "_qid";
+
+/** Seconds a decorated link stays valid */
+const LINK_MAX_AGE = 2 * 60;
+
+/** Shortened Quanta IDs are 22 characters of base64url */
+const ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+/**
+ * Encode a user ID for a link, as {id}.{time}.{checksum}. The checksum
+ * covers the browser, so a link copied to another device or opened after
+ * it expired starts a new ID instead of merging two people. It is not a
+ * signature: anyone can compute it, so it doesn't stop forged links.
+ * @param time Epoch seconds
+ * @param salt Ties the link to this browser, e.g. the user agent
+ */
+export function encodeLinkParam(id: string, time: number, salt: string) {
+  return `${id}.${time}.${checksum(`${id}.${time}.${salt}`)}`;
+}
+
+/**
+ * Decode a link parameter
+ * @param now Epoch seconds
+ * @returns The user ID, or null if the parameter is invalid or expired, or
+ * doesn't carry a Quanta ID
+ */
+export function decodeLinkParam(
+  value: string,
+  now: number,
+  salt: string
+): string | null {
+  const parts = value.split(".");
+  if (parts.length !== 3) return null;
+  const [id, timeString, sum] = parts;
+  const time = parseInt(timeString, 10);
+  if (
+    !ID_PATTERN.test(id) ||
+    !isFinite(time) ||
+    Math.abs(now - time) > LINK_MAX_AGE
+  ) {
+    return null;
+  }
+  return sum === checksum(`${id}.${time}.${salt}`) ? id : null;
+}
+
+/**
+ * Whether a host is one of the domains or a subdomain of them
+ */
+export function isLinkDomain(hostname: string, domains: string[]) {
+  const host = hostname.toLowerCase();
+  return domains.some((domain) => {
+    const name = domain.toLowerCase().replace(/^\./, "");
+    return host === name || host.endsWith(`.${name}`);
+  });
+}
+
+/** Unkeyed FNV-1a, only meant to catch mangled and shared links */
+function checksum(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
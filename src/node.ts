@@ -0,0 +1,384 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import {
+  AbstractQuantaBase,
+  ArgValue,
+  DefaultEventMap,
+  EventArguments,
+  EventMap,
+  EventName,
+  LogOptions,
+  PurchaseDetails,
+  QuantaUser,
+  SubscriptionDetails,
+} from "./abstract";
+
+export interface QuantaNodeOptions {
+  /** JSON file that keeps the queue and IDs across restarts. Storage stays in memory if unset. */
+  storagePath?: string;
+  /** Device reported when the caller doesn't provide one (default "Server") */
+  device?: string;
+  /** OS reported when the caller doesn't provide one (default from the os module) */
+  os?: string;
+  /** App version reported when the caller doesn't provide one */
+  version?: string;
+  bundleId?: string;
+  /** Language reported when the caller doesn't provide one (default "en-US") */
+  language?: string;
+  /** Log debug output */
+  debug?: boolean;
+}
+
+/**
+ * Quanta for servers, e.g. to log webhooks, renewals and refunds against
+ * the IDs of your app's users. Nothing is sent automatically, and events
+ * are logged for the user passed with each call.
+ */
+export class QuantaNodeType<
+  Events extends EventMap = DefaultEventMap
+> extends AbstractQuantaBase<Events> {
+  private _options: QuantaNodeOptions;
+  private _storage: FileStorage | null = null;
+  private _shutDown = false;
+  private _timers: ReturnType<typeof setTimeout>[] = [];
+  private _released = false;
+
+  constructor(options: QuantaNodeOptions = {}) {
+    super();
+    this._options = options;
+    this._sessionEvents = false;
+    this._skipAllViewEvents = true;
+  }
+
+  /**
+   * Log an event for a user
+   * @param user The user's ID, or their ID with device details
+   * @param event Event name
+   * @param addedArguments Additional event parameters or formatted argument string
+   */
+  logForUser<E extends EventName<Events>>(
+    user: QuantaUser | string,
+    event: E,
+    addedArguments?: EventArguments<Events, E>
+  ) {
+    this.logForUserAsync(user, event, addedArguments).catch(console.error);
+  }
+
+  /**
+   * Log an event for a user
+   * @param user The user's ID, or their ID with device details
+   * @param event Event name
+   * @param addedArguments Additional event parameters or formatted argument string
+   */
+  async logForUserAsync<E extends EventName<Events>>(
+    user: QuantaUser | string,
+    event: E,
+    addedArguments?: EventArguments<Events, E>
+  ) {
+    await this.logWithRevenueForUserAsync(user, event, 0, addedArguments);
+  }
+
+  /**
+   * Log an event with revenue for a user
+   * @param user The user's ID, or their ID with device details
+   * @param event Event name
+   * @param revenue Revenue amount
+   * @param addedArguments Additional event parameters or formatted argument string
+   */
+  logWithRevenueForUser<E extends EventName<Events>>(
+    user: QuantaUser | string,
+    event: E,
+    revenue: number = 0,
+    addedArguments?: EventArguments<Events, E>,
+    time: Date = new Date(this.now())
+  ) {
+    this.logWithRevenueForUserAsync(
+      user,
+      event,
+      revenue,
+      addedArguments,
+      time
+    ).catch(console.error);
+  }
+
+  /**
+   * Log an event with revenue for a user
+   * @param user The user's ID, or their ID with device details
+   * @param event Event name
+   * @param revenue Revenue amount
+   * @param addedArguments Additional event parameters or formatted argument string
+   */
+  async logWithRevenueForUserAsync<E extends EventName<Events>>(
+    user: QuantaUser | string,
+    event: E,
+    revenue: number = 0,
+    addedArguments?: EventArguments<Events, E>,
+    time: Date = new Date(this.now())
+  ) {
+    await this.logEventAsync(
+      event,
+      revenue,
+      (addedArguments ?? {}) as Record<string, ArgValue> | string,
+      time,
+      { user: toUser(user) }
+    );
+  }
+
+  /**
+   * Log a purchase for a user, e.g. from a store webhook
+   * @param user The user's ID, or their ID with device details
+   * @param details Price, currency and product of the purchase
+   */
+  async purchaseForUserAsync(
+    user: QuantaUser | string,
+    details: PurchaseDetails
+  ) {
+    await this.logRevenueEvent(
+      "purchase",
+      details,
+      1,
+      {},
+      {
+        user: toUser(user),
+      }
+    );
+  }
+
+  /**
+   * Log a refund for a user. Pass the refunded amount as a positive number.
+   * @param user The user's ID, or their ID with device details
+   * @param details Refunded amount, currency and product
+   */
+  async refundForUserAsync(
+    user: QuantaUser | string,
+    details: PurchaseDetails
+  ) {
+    await this.logRevenueEvent(
+      "refund",
+      details,
+      -1,
+      {},
+      {
+        user: toUser(user),
+      }
+    );
+  }
+
+  /**
+   * Log a subscription start, trial or renewal for a user
+   * @param user The user's ID, or their ID with device details
+   * @param details Price, currency, billing period and product
+   */
+  async subscriptionForUserAsync(
+    user: QuantaUser | string,
+    details: SubscriptionDetails
+  ) {
+    await this.logSubscription(details, { user: toUser(user) });
+  }
+
+  /**
+   * Send queued events and stop accepting new ones. Call this before the
+   * process exits. Events that can't be sent in time stay in the storage
+   * file, if there is one, and are sent on the next start.
+   * @param timeoutMs How long to wait for the ingress
+   */
+  async shutdown(timeoutMs: number = 5000) {
+    this._shutDown = true;
+
+    const deadline = this.now() + timeoutMs;
+    while (
+      (this._isProcessing || this._queue.length > 0) &&
+      this.getConsent() === "granted" &&
+      this.now() < deadline
+    ) {
+      if (!this._isProcessing) this.processQueue().catch(console.error);
+      await this.sleep(50);
+    }
+    if (this._queue.length > 0) {
+      this.debugWarn(
+        `Shut down with ${this._queue.length} events still queued.`
+      );
+    }
+
+    // Retries that are still waiting must not keep the process alive
+    this._released = true;
+    for (const timer of this._timers) {
+      timer.unref();
+    }
+
+    this._unwatchNetwork?.();
+    this._unwatchNetwork = null;
+    await this._storage?.flush();
+  }
+
+  protected async logEventAsync(
+    event: string,
+    revenue: number,
+    addedArguments: Record<string, ArgValue> | string,
+    time: Date = new Date(this.now()),
+    options: LogOptions = {}
+  ) {
+    if (this._shutDown) {
+      this.debugWarn(
+        `Quanta was shut down. The ${event} event was not logged.`
+      );
+      return;
+    }
+    await super.logEventAsync(event, revenue, addedArguments, time, options);
+  }
+
+  protected sleep(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this._timers = this._timers.filter((t) => t !== timer);
+        resolve();
+      }, ms);
+      if (this._released) {
+        timer.unref();
+      } else {
+        this._timers.push(timer);
+      }
+    });
+  }
+
+  makeAsyncStorage() {
+    // Runs before the constructor body, so the path is looked up on first use
+    const items: Record<string, string> = {};
+    const storage = () => {
+      const path = this._options?.storagePath;
+      if (path && !this._storage) {
+        this._storage = new FileStorage(path, (e) =>
+          this.debugError("Failed to write storage:", e)
+        );
+      }
+      return this._storage;
+    };
+    return {
+      get name() {
+        return storage() ? "file" : "memory";
+      },
+      getItem: async (key: string) => {
+        const file = storage();
+        return file ? file.getItem(key) : items[key] ?? null;
+      },
+      setItem: async (key: string, value: string) => {
+        const file = storage();
+        if (file) return file.setItem(key, value);
+        items[key] = value;
+      },
+    };
+  }
+  setupUrlChangeListeners() {}
+  async handleUrlChange() {}
+  async sendViewEvent() {}
+  parseScriptTagAttributes() {}
+  getAppIdFromScriptTag() {
+    return process.env.QUANTA_APP_ID || null;
+  }
+  isServerSide() {
+    return false;
+  }
+  systemLanguageProvider() {
+    return this._options.language ?? "en-US";
+  }
+  getBundleId() {
+    return this._options.bundleId ?? "";
+  }
+  getVersion() {
+    return this._options.version ?? "";
+  }
+  getDeviceInfo() {
+    return this._options.device ?? "Server";
+  }
+  getOSInfo() {
+    return this._options.os ?? `${os.type()} ${os.release()}`;
+  }
+  getDebugFlags() {
+    return this._options.debug ? 1 : 0;
+  }
+}
+
+/**
+ * Key-value storage in a single JSON file. Writes are serialized and go
+ * through a temporary file, so a crash never leaves a partial file behind.
+ */
+class FileStorage {
+  private _items: Promise<Record<string, string>> | null = null;
+  private _writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private path: string,
+    private onError: (error: unknown) => void
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return (await this.load())[key] ?? null;
+  }
+
+  async setItem(key: string, value: string) {
+    const items = await this.load();
+    items[key] = value;
+    const json = JSON.stringify(items);
+    this._writing = this._writing
+      .then(async () => {
+        const temp = `${this.path}.tmp`;
+        await fs.writeFile(temp, json, "utf8");
+        await fs.rename(temp, this.path);
+      })
+      .catch(this.onError);
+    await this._writing;
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  flush() {
+    return this._writing;
+  }
+
+  private load() {
+    if (!this._items) {
+      this._items = fs
+        .readFile(this.path, "utf8")
+        .then((json) => JSON.parse(json) as Record<string, string>)
+        .catch(() => ({}));
+    }
+    return this._items;
+  }
+}
+
+function toUser(user: QuantaUser | string): QuantaUser {
+  return typeof user === "string" ? { id: user } : user;
+}
+
+/**
+ * Create a Quanta instance for a server
+ * @example
+ * const quanta = createQuanta({ storagePath: "/var/lib/app/quanta.json" });
+ * await quanta.initializeAsync("your-app-id");
+ * await quanta.logForUserAsync(userId, "renewal");
+ * await quanta.shutdown();
+ */
+export function createQuanta<Events extends EventMap = DefaultEventMap>(
+  options: QuantaNodeOptions = {}
+): QuantaNodeType<Events> {
+  return new QuantaNodeType<Events>(options);
+}
+
+export type {
+  ArgValue,
+  ConsentState,
+  DefaultEventMap,
+  EventArguments,
+  EventMap,
+  EventName,
+  PurchaseDetails,
+  QuantaConfig,
+  QuantaPlugin,
+  QuantaUser,
+  StorageAdapter,
+  SubscriptionDetails,
+  SubscriptionPeriod,
+} from "./abstract";
+export type { RateProvider } from "./currency";
+export { isCurrencyCode } from "./currency";
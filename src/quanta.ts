@@ -1,10 +1,39 @@
-import { AbstractQuantaBase } from "./abstract";
+import {
+  AbstractQuantaBase,
+  ConsentState,
+  DefaultEventMap,
+  EventMap,
+  EventTask,
+  NetworkAdapter,
+  SharedIdentity,
+} from "./abstract";
+import { watchAutocapture } from "./autocapture";
+import { fetchTransport } from "./transport";
+import {
+  decodeLinkParam,
+  encodeLinkParam,
+  isLinkDomain,
+  LINK_PARAM,
+} from "./linker";
+import { readCookie, StorageChain, writeCookie } from "./storage";
+import { TabCoordinator } from "./tabs";
+
+const IDENTITY_COOKIE = "tools.quanta.uid";
+const IDENTITY_COOKIE_MAX_AGE = 2 * 365 * 24 * 60 * 60;
 
 function fullPath(url: Location | URL) {
   return url.href.slice(url.origin.length);
 }
 
-export class QuantaWebType extends AbstractQuantaBase {
+export class QuantaWebType<
+  Events extends EventMap = DefaultEventMap
+> extends AbstractQuantaBase<Events> {
+  private _tabs = new TabCoordinator(
+    () => this.takeOverQueue().catch(console.error),
+    (tasks) => this.receiveEvents(tasks).catch(console.error),
+    (consent) => this.receiveConsent(consent).catch(console.error)
+  );
+
   init() {
     this.initializeAsync(undefined, true).catch(() => {});
   }
@@ -27,6 +56,10 @@ export class QuantaWebType extends AbstractQuantaBase {
       }
     }
 
+    // Variant overrides and linked IDs are not part of the page
+    urlSearchParams.delete("quanta_ab");
+    urlSearchParams.delete(LINK_PARAM);
+
     // Reconstruct clean URL without UTM parameters
     url.search = urlSearchParams.toString();
     const path = fullPath(url);
@@ -47,20 +80,72 @@ export class QuantaWebType extends AbstractQuantaBase {
       }
     }
 
-    // Calculate how much space all properties take
-    let totalLength = "view".length; // Event name
-    let separatorCount = -1;
-
-    // Add all properties except path
-    for (const [key, value] of Object.entries(props)) {
-      totalLength += key.length + value.length;
-      separatorCount += 2; // Two separators per key-value pair
+    // Long paths are shortened before any other argument, but dropped last
+    await this.logEventAsync("view", 0, props, new Date(), {
+      argPriority: { path: -2 },
+      dropPriority: { path: 1 },
+    });
+  }
+  /**
+   * Add the user ID to a link to another site, so that site continues with
+   * the same ID. The link is only valid for two minutes, so decorate it
+   * right before navigating. Links to `linkDomains` are decorated
+   * automatically when clicked.
+   * @param url The link
+   * @returns The decorated link, or the link unchanged without consent
+   */
+  decorateUrl(url: string): string {
+    if (!this._initialized || this.getConsent() !== "granted") return url;
+    try {
+      const decorated = new URL(url, window.location.href);
+      decorated.searchParams.set(
+        LINK_PARAM,
+        encodeLinkParam(
+          this._id,
+          Math.floor(this.now() / 1000),
+          navigator.userAgent
+        )
+      );
+      return decorated.href;
+    } catch {
+      return url;
+    }
+  }
+  protected takeLinkedId(): string | null {
+    if (typeof window === "undefined" || this._linkDomains.length === 0) {
+      return null;
     }
+    try {
+      const url = new URL(window.location.href);
+      const value = url.searchParams.get(LINK_PARAM);
+      if (value === null) return null;
 
-    props.path = props.path.slice(0, 200 - totalLength - separatorCount);
+      // Keep the ID out of bookmarks and shared links
+      url.searchParams.delete(LINK_PARAM);
+      history.replaceState(history.state, "", url.href);
 
-    await this.logAsync("view", props);
+      const id = decodeLinkParam(
+        value,
+        Math.floor(this.now() / 1000),
+        navigator.userAgent
+      );
+      if (!id) {
+        this.debugWarn("Ignoring an invalid or expired linked ID.");
+      }
+      return id;
+    } catch {
+      return null;
+    }
+  }
+  protected getAbOverridesFromPlatform(): Record<string, string> {
+    try {
+      const value = new URL(window.location.href).searchParams.get("quanta_ab");
+      return value ? this.parseAbOverrides(value) : {};
+    } catch {
+      return {};
+    }
   }
+
   async handleUrlChange(): Promise<void> {
     const newPath = fullPath(window.location);
     if (newPath === this._currentPath) return;
@@ -68,15 +153,38 @@ export class QuantaWebType extends AbstractQuantaBase {
     this._isFirstViewEvent = false; // First view is only the initial page load
     await this.maybeSendViewEvent();
   }
+  protected loadSharedIdentity(): SharedIdentity | null {
+    if (!this._cookieDomain || typeof document === "undefined") return null;
+    try {
+      // Formatted as {id}.{installDate}
+      const value = readCookie(IDENTITY_COOKIE) ?? "";
+      const separator = value.lastIndexOf(".");
+      const id = value.slice(0, separator);
+      const installDate = parseInt(value.slice(separator + 1), 10);
+      return separator > 0 ? { id, installDate: installDate || 0 } : null;
+    } catch {
+      return null;
+    }
+  }
+  protected saveSharedIdentity(identity: SharedIdentity | null) {
+    if (!this._cookieDomain || typeof document === "undefined") return;
+    try {
+      writeCookie(
+        IDENTITY_COOKIE,
+        identity ? `${identity.id}.${identity.installDate}` : "",
+        {
+          domain: this._cookieDomain,
+          maxAge: identity ? IDENTITY_COOKIE_MAX_AGE : 0,
+        }
+      );
+    } catch (e) {
+      this.debugWarn("Failed to write the Quanta ID cookie.", e);
+    }
+  }
   makeAsyncStorage() {
-    return {
-      getItem: async (key: string) => {
-        return localStorage.getItem(key);
-      },
-      setItem: async (key: string, value: string) => {
-        return localStorage.setItem(key, value);
-      },
-    };
+    return new StorageChain((backend) =>
+      this.debugLog(`Quanta storage: ${backend}`)
+    );
   }
   setupUrlChangeListeners() {
     if (typeof window === "undefined") return;
@@ -104,6 +212,100 @@ export class QuantaWebType extends AbstractQuantaBase {
       originalReplaceState.apply(quanta, args);
       quanta.handleUrlChange().catch(console.error);
     };
+
+    this.setupLinkDecoration();
+    watchAutocapture(document, (event, args) => {
+      if (!this._autocapture) return;
+      this.logEventAsync(event, 0, args).catch(console.error);
+    });
+  }
+  private setupLinkDecoration() {
+    // Capture runs before the browser follows the link
+    const decorate = (event: Event) => {
+      if (this._linkDomains.length === 0) return;
+      const link = (event.target as Element | null)?.closest?.("a[href]");
+      if (!(link instanceof HTMLAnchorElement)) return;
+      if (link.hostname === window.location.hostname) return;
+      if (!isLinkDomain(link.hostname, this._linkDomains)) return;
+      link.href = this.decorateUrl(link.href);
+    };
+    document.addEventListener("click", decorate, true);
+    document.addEventListener("auxclick", decorate, true);
+  }
+  protected async electQueueLeader() {
+    if (typeof window === "undefined") return;
+    await this._tabs.start();
+    this.debugLog(`Quanta tab role: ${this._tabs.role}`);
+  }
+  protected isQueueLeader() {
+    return this._tabs.role === "leader";
+  }
+  protected handOffEvents(tasks: EventTask[]) {
+    return this._tabs.handOff(tasks);
+  }
+  protected shareConsent(consent: ConsentState) {
+    this._tabs.shareConsent(consent);
+  }
+  protected defaultNetworkAdapter(): NetworkAdapter | null {
+    if (typeof window === "undefined" || typeof navigator === "undefined") {
+      return null;
+    }
+    return {
+      isOnline: async () => navigator.onLine !== false,
+      subscribe: (listener) => {
+        const online = () => listener(true);
+        const offline = () => listener(false);
+        window.addEventListener("online", online);
+        window.addEventListener("offline", offline);
+        return () => {
+          window.removeEventListener("online", online);
+          window.removeEventListener("offline", offline);
+        };
+      },
+    };
+  }
+  protected setupExitListeners() {
+    if (typeof window === "undefined") return;
+
+    const flush = () => {
+      this.flushOnExit((url, body) => this.sendOnExit(url, body));
+    };
+
+    // pagehide covers navigation, visibilitychange covers tab switches and
+    // mobile browsers that are killed while in the background
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") flush();
+    });
+  }
+  private sendOnExit(url: string, body: string) {
+    // sendBeacon bypasses the transport, so only use it for the default one
+    if (
+      this._transport === fetchTransport &&
+      typeof navigator !== "undefined" &&
+      typeof navigator.sendBeacon === "function"
+    ) {
+      try {
+        if (navigator.sendBeacon(url, body)) return true;
+      } catch {
+        // fall through to keepalive request
+      }
+    }
+
+    try {
+      this._transport
+        .send({
+          url,
+          method: "POST",
+          headers: { "Content-Type": "text/plain" },
+          body,
+          keepalive: true,
+        })
+        .catch(() => {});
+      return true;
+    } catch {
+      return false;
+    }
   }
   getAppIdFromScriptTag() {
     if (typeof window === "undefined") return null;
@@ -228,6 +430,9 @@ export class QuantaWebType extends AbstractQuantaBase {
     }
     return "Unknown";
   }
+  getDebugFlags() {
+    return this.isDebug() ? 1 : 0;
+  }
   isDebug() {
     return (
       window.location.hostname === "localhost" ||
@@ -249,10 +454,51 @@ export class QuantaWebType extends AbstractQuantaBase {
     if (!!document.currentScript?.dataset?.enableDebugLogs) {
       this.enableLogging();
     }
+
+    // Hold back events until the site calls setConsent()
+    if (!!document.currentScript?.dataset?.requireConsent) {
+      this.configure({ requireConsent: true });
+    }
+
+    // Share the user ID with other subdomains
+    const cookieDomain = document.currentScript?.dataset?.cookieDomain;
+    if (cookieDomain) {
+      this.configure({ cookieDomain });
+    }
+
+    // Log clicks and form submits declared in markup
+    if (!!document.currentScript?.dataset?.autocapture) {
+      this.configure({ autocapture: true });
+    }
+
+    // Pass the user ID on links to these domains
+    const linkDomains = document.currentScript?.dataset?.linkDomains;
+    if (linkDomains) {
+      this.configure({
+        linkDomains: linkDomains
+          .split(",")
+          .map((domain) => domain.trim())
+          .filter(Boolean),
+      });
+    }
+
+    // Route events through a custom ingress, e.g. a first-party proxy
+    const ingressUrl = document.currentScript?.dataset?.ingressUrl;
+    if (ingressUrl) {
+      this.configure({ ingressUrl });
+    }
   }
 }
 
 const Quanta = new QuantaWebType();
 
+/**
+ * Get the Quanta instance typed with an event catalog, so event names and
+ * arguments are checked at compile time
+ */
+export function createQuanta<Events extends EventMap>() {
+  return Quanta as unknown as QuantaWebType<Events>;
+}
+
 export { Quanta };
 export default Quanta;
@@ -0,0 +1,351 @@
+import type { EventTask } from "./abstract";
+
+const LEGACY_KEY = "tools.quanta.queue.tasks";
+const INDEX_KEY = "tools.quanta.queue.chunks";
+const CHUNK_KEY = "tools.quanta.queue.chunk.";
+
+export type EvictionPolicy = "oldest" | "lowest-priority";
+
+export type DropReason = "queue-full" | "storage-full";
+
+export interface QueueStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+}
+
+export interface QueueOptions {
+  /** Maximum number of queued events */
+  maxEvents: number;
+  /** Maximum serialized size of all queued events in bytes */
+  maxBytes: number;
+  /** Which events to drop when the queue is full */
+  eviction: EvictionPolicy;
+  /** Number of events persisted per storage key */
+  chunkSize: number;
+}
+
+interface Chunk {
+  id: number;
+  tasks: EventTask[];
+}
+
+/**
+ * Bounded event queue that persists itself in fixed-size chunks, so adding
+ * or removing an event only rewrites the chunk it lives in.
+ */
+export class EventQueue {
+  private _tasks: EventTask[] = [];
+  private _chunks: Chunk[] = [];
+  private _sizes = new Map<EventTask, number>();
+  private _bytes = 0;
+  private _loading: Promise<void> | null = null;
+  private _options: QueueOptions = {
+    maxEvents: 1000,
+    maxBytes: 512 * 1024,
+    eviction: "oldest",
+    chunkSize: 20,
+  };
+
+  constructor(
+    private getStorage: () => QueueStorage,
+    private onDrop: (tasks: EventTask[], reason: DropReason) => void,
+    private onError: (message: string, error: unknown) => void
+  ) {}
+
+  get length() {
+    return this._tasks.length;
+  }
+
+  /**
+   * All queued events, oldest first. Do not mutate the returned array.
+   */
+  get tasks(): readonly EventTask[] {
+    return this._tasks;
+  }
+
+  configure(options: Partial<QueueOptions>) {
+    this._options = { ...this._options, ...options };
+  }
+
+  /**
+   * Load persisted events. Safe to call multiple times, only the first
+   * call reads from storage.
+   */
+  load(): Promise<void> {
+    if (!this._loading) {
+      this._loading = this.read();
+    }
+    return this._loading;
+  }
+
+  /**
+   * Discard the in-memory state and read the queue from storage again,
+   * e.g. after another tab wrote to it
+   */
+  reload(): Promise<void> {
+    this._tasks = [];
+    this._chunks = [];
+    this._sizes.clear();
+    this._bytes = 0;
+    this._loading = null;
+    return this.load();
+  }
+
+  /**
+   * Add events to the end of the queue, evicting others if it is full
+   */
+  async push(...tasks: EventTask[]) {
+    await this.load();
+    await this.append(tasks);
+  }
+
+  /**
+   * Remove events from the queue, e.g. after they were sent
+   */
+  async remove(tasks: EventTask[]) {
+    await this.load();
+    const removed = tasks.filter((task) => this._sizes.has(task));
+    if (removed.length === 0) return;
+
+    this._tasks = this._tasks.filter((task) => removed.indexOf(task) < 0);
+    for (const task of removed) this.untrack(task);
+
+    const touched: Chunk[] = [];
+    const indexChanged = this.detach(removed, touched);
+    await this.persist(touched, indexChanged);
+  }
+
+  /**
+   * Persist changes made to events that are already queued
+   */
+  async update(tasks: EventTask[]) {
+    await this.load();
+    const touched = this._chunks.filter((chunk) =>
+      chunk.tasks.some((task) => tasks.indexOf(task) >= 0)
+    );
+    await this.persist(touched, false);
+  }
+
+  /**
+   * Remove all events from memory and storage
+   */
+  async clear() {
+    await this.load();
+    const touched = this._chunks;
+    this._tasks = [];
+    this._chunks = [];
+    this._sizes.clear();
+    this._bytes = 0;
+    await this.writeChunks(touched.map((chunk) => ({ ...chunk, tasks: [] })));
+    await this.writeIndex();
+  }
+
+  private async append(tasks: EventTask[]) {
+    for (const task of tasks) {
+      this._tasks.push(task);
+      this.track(task);
+    }
+
+    let chunk = this._chunks[this._chunks.length - 1];
+    const touched: Chunk[] = [];
+    let indexChanged = false;
+    for (const task of tasks) {
+      if (!chunk || chunk.tasks.length >= this._options.chunkSize) {
+        chunk = { id: chunk ? chunk.id + 1 : 0, tasks: [] };
+        this._chunks.push(chunk);
+        indexChanged = true;
+      }
+      chunk.tasks.push(task);
+      if (touched.indexOf(chunk) < 0) touched.push(chunk);
+    }
+
+    const evicted = this.evict();
+    if (evicted.length > 0) {
+      this.onDrop(evicted, "queue-full");
+      indexChanged = this.detach(evicted, touched) || indexChanged;
+    }
+    await this.persist(touched, indexChanged);
+  }
+
+  private async read() {
+    try {
+      const storage = this.getStorage();
+      const index: number[] = JSON.parse(
+        (await storage.getItem(INDEX_KEY)) || "[]"
+      );
+      for (const id of index) {
+        const stored = await storage.getItem(`${CHUNK_KEY}${id}`);
+        const tasks = this.parse(stored);
+        this._chunks.push({ id, tasks });
+        for (const task of tasks) {
+          this._tasks.push(task);
+          this.track(task);
+        }
+      }
+    } catch (e) {
+      this.onError("Failed to load queue from storage:", e);
+    }
+    await this.migrate();
+  }
+
+  /**
+   * Move events from the single-key format of earlier versions into chunks
+   */
+  private async migrate() {
+    try {
+      const storage = this.getStorage();
+      const legacy = this.parse(await storage.getItem(LEGACY_KEY));
+      if (legacy.length === 0) return;
+
+      await this.append(legacy);
+      await storage.setItem(LEGACY_KEY, "");
+    } catch (e) {
+      this.onError("Failed to migrate queue from storage:", e);
+    }
+  }
+
+  private parse(stored: string | null): EventTask[] {
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((item: any) => !item.beaconed)
+      .map((item: any) => ({
+        ...item,
+        time: new Date(item.time),
+      }));
+  }
+
+  private track(task: EventTask) {
+    const size = byteLength(JSON.stringify(task));
+    this._sizes.set(task, size);
+    this._bytes += size;
+  }
+
+  private untrack(task: EventTask) {
+    this._bytes -= this._sizes.get(task) ?? 0;
+    this._sizes.delete(task);
+  }
+
+  /**
+   * Drop events until the queue is within its limits
+   * @returns The dropped events
+   */
+  private evict(): EventTask[] {
+    const evicted: EventTask[] = [];
+    while (
+      this._tasks.length > 0 &&
+      (this._tasks.length > this._options.maxEvents ||
+        this._bytes > this._options.maxBytes)
+    ) {
+      const task = this.evictionCandidate();
+      this._tasks.splice(this._tasks.indexOf(task), 1);
+      this.untrack(task);
+      evicted.push(task);
+    }
+    return evicted;
+  }
+
+  private evictionCandidate(): EventTask {
+    if (this._options.eviction === "oldest") return this._tasks[0];
+
+    // Lowest priority first, oldest among equal priorities
+    let candidate = this._tasks[0];
+    for (const task of this._tasks) {
+      if ((task.priority ?? 0) < (candidate.priority ?? 0)) {
+        candidate = task;
+      }
+    }
+    return candidate;
+  }
+
+  /**
+   * Remove events from their chunks, dropping chunks that become empty
+   * @param touched Collects the chunks that need to be written
+   * @returns Whether the chunk index changed
+   */
+  private detach(tasks: EventTask[], touched: Chunk[]): boolean {
+    let indexChanged = false;
+    for (const chunk of this._chunks) {
+      const remaining = chunk.tasks.filter((task) => tasks.indexOf(task) < 0);
+      if (remaining.length === chunk.tasks.length) continue;
+      chunk.tasks = remaining;
+      if (touched.indexOf(chunk) < 0) touched.push(chunk);
+      if (remaining.length === 0) indexChanged = true;
+    }
+    if (indexChanged) {
+      this._chunks = this._chunks.filter((chunk) => chunk.tasks.length > 0);
+    }
+    return indexChanged;
+  }
+
+  private async persist(touched: Chunk[], indexChanged: boolean) {
+    try {
+      await this.writeChunks(touched);
+      if (indexChanged) await this.writeIndex();
+    } catch (e) {
+      await this.recover(e);
+    }
+  }
+
+  /**
+   * Storage is full: drop the oldest chunk and rewrite everything, until
+   * the queue fits or nothing is left to drop.
+   */
+  private async recover(error: unknown) {
+    this.onError("Failed to save queue to storage:", error);
+    while (this._chunks.length > 1) {
+      const [dropped, ...rest] = this._chunks;
+      this._chunks = rest;
+      this._tasks = this._tasks.filter(
+        (task) => dropped.tasks.indexOf(task) < 0
+      );
+      for (const task of dropped.tasks) this.untrack(task);
+      this.onDrop(dropped.tasks, "storage-full");
+
+      try {
+        await this.writeChunks([{ ...dropped, tasks: [] }]);
+        await this.writeChunks(this._chunks);
+        await this.writeIndex();
+        return;
+      } catch (e) {
+        // still too large, keep dropping
+      }
+    }
+  }
+
+  private async writeChunks(chunks: Chunk[]) {
+    const storage = this.getStorage();
+    for (const chunk of chunks) {
+      await storage.setItem(
+        `${CHUNK_KEY}${chunk.id}`,
+        chunk.tasks.length > 0 ? JSON.stringify(chunk.tasks) : ""
+      );
+    }
+  }
+
+  private async writeIndex() {
+    await this.getStorage().setItem(
+      INDEX_KEY,
+      JSON.stringify(this._chunks.map((chunk) => chunk.id))
+    );
+  }
+}
+
+/**
+ * UTF-8 encoded length of a string
+ */
+export function byteLength(value: string): number {
+  let bytes = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair, encoded as 4 bytes
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { Quanta } from "./quanta";
+
+export interface AbTestState {
+  /** The variant letter, "A" while loading */
+  variant: string;
+  /** True until the stored assignments are loaded */
+  loading: boolean;
+}
+
+/**
+ * Get the variant of an experiment and re-render when it changes
+ * @param experimentName The name of the experiment
+ */
+export function useAbTest(experimentName: string): AbTestState {
+  const [state, setState] = useState<AbTestState>(() =>
+    Quanta.isInitialized()
+      ? { variant: Quanta.abTest(experimentName), loading: false }
+      : { variant: "A", loading: true }
+  );
+
+  useEffect(() => {
+    let active = true;
+    const update = () => {
+      Quanta.abTestAsync(experimentName)
+        .then((variant) => {
+          if (active) setState({ variant, loading: false });
+        })
+        .catch(console.error);
+    };
+
+    update();
+    const unsubscribe = Quanta.onAbChange(update);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [experimentName]);
+
+  return state;
+}
@@ -0,0 +1,121 @@
+/**
+ * Query parameters whose values are always redacted
+ */
+export const DEFAULT_SCRUBBED_QUERY_PARAMS = [
+  "access_token",
+  "api_key",
+  "apikey",
+  "auth",
+  "code",
+  "email",
+  "id_token",
+  "key",
+  "password",
+  "phone",
+  "refresh_token",
+  "secret",
+  "session",
+  "session_id",
+  "sessionid",
+  "sid",
+  "token",
+];
+
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const BASE64_PATTERN = /[A-Za-z0-9+_-]{40,}={0,2}/g;
+// Words of a slug, e.g. "How", "React" or "2024"
+const WORD_PATTERN = /^([A-Z]?[a-z]+|[A-Z]+|\d+)$/;
+const HEX_PATTERN = /\b[0-9a-fA-F]{32,}\b/g;
+const PHONE_PATTERNS = [
+  // +49 30 1234567, +1-202-555-0123
+  /\+\d{1,3}[\s.-]?\(?\d[\d\s().-]{6,16}\d/g,
+  // (202) 555-0123, 202.555.0123
+  /\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g,
+];
+
+export interface ScrubResult {
+  value: string;
+  redacted: boolean;
+}
+
+/**
+ * Redact emails, phone numbers, JWTs and long hex or base64 strings
+ */
+export function scrubValue(value: string): ScrubResult {
+  let result = value
+    .replace(JWT_PATTERN, "[token]")
+    .replace(EMAIL_PATTERN, "[email]")
+    .replace(BASE64_PATTERN, (match) =>
+      looksEncoded(match) ? "[redacted]" : match
+    )
+    .replace(HEX_PATTERN, "[redacted]");
+  for (const pattern of PHONE_PATTERNS) {
+    result = result.replace(pattern, "[phone]");
+  }
+  return { value: result, redacted: result !== value };
+}
+
+/**
+ * Mixed-case alphanumerics look like encoded data, unless they are the
+ * words of a slug such as "How-To-Build-Apps-With-React-Native-2024"
+ */
+function looksEncoded(match: string): boolean {
+  if (!/[A-Z]/.test(match) || !/[a-z]/.test(match) || !/\d/.test(match)) {
+    return false;
+  }
+  return !match
+    .split(/[-_]/)
+    .every((part) => part.length <= 4 || WORD_PATTERN.test(part));
+}
+
+/**
+ * Redact the values of sensitive query parameters, then scrub the path
+ * segments and the rest of the URL like any other value. Works for full
+ * URLs and paths.
+ * @param paramNames Lowercase names of query parameters to redact
+ */
+export function scrubUrl(url: string, paramNames: string[]): ScrubResult {
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex >= 0 ? url.slice(hashIndex) : "";
+  const withoutHash = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+  const queryIndex = withoutHash.indexOf("?");
+  const path = queryIndex >= 0 ? withoutHash.slice(0, queryIndex) : withoutHash;
+  const scrubbedPath = path
+    .split("/")
+    .map((segment) => scrubValue(segment).value)
+    .join("/");
+  if (queryIndex < 0) {
+    const value = scrubbedPath + scrubValue(hash).value;
+    return { value, redacted: value !== url };
+  }
+
+  const query = withoutHash
+    .slice(queryIndex + 1)
+    .split("&")
+    .map((pair) => {
+      const separator = pair.indexOf("=");
+      if (separator < 0) return pair;
+      const name = pair.slice(0, separator);
+      if (paramNames.indexOf(safeDecode(name).toLowerCase()) >= 0) {
+        return `${name}=[redacted]`;
+      }
+      // Values are often encoded, e.g. me%40example.com
+      const decoded = scrubValue(safeDecode(pair.slice(separator + 1)));
+      return decoded.redacted ? `${name}=${decoded.value}` : pair;
+    })
+    .join("&");
+
+  const value = `${scrubbedPath}?${scrubValue(query).value}${
+    scrubValue(hash).value
+  }`;
+  return { value, redacted: value !== url };
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+}
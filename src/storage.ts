@@ -0,0 +1,202 @@
+import type { StorageAdapter } from "./abstract";
+
+const PROBE_KEY = "tools.quanta.probe";
+const DATABASE_NAME = "tools.quanta";
+const OBJECT_STORE = "items";
+const INDEXED_DB_TIMEOUT = 1000;
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+// Cookies go out with every request, everything else stays in memory
+const COOKIE_KEYS = ["tools.quanta.id", "tools.quanta.install"];
+
+export type StorageBackend = "localStorage" | "indexedDB" | "cookie" | "memory";
+
+/**
+ * Storage backed by the first backend that works in this browser:
+ * localStorage, IndexedDB, a first-party cookie, and memory as the last
+ * resort. Sandboxed iframes, privacy modes and disabled storage make the
+ * earlier ones throw. The backend is detected once, on first use.
+ */
+export class StorageChain implements StorageAdapter {
+  private _adapter: Promise<StorageAdapter> | null = null;
+  private _backend: StorageBackend | undefined = undefined;
+
+  constructor(private onDetected: (backend: StorageBackend) => void) {}
+
+  /** The detected backend, undefined until first use */
+  get name() {
+    return this._backend;
+  }
+
+  async getItem(key: string) {
+    return (await this.detect()).getItem(key);
+  }
+
+  async setItem(key: string, value: string) {
+    await (await this.detect()).setItem(key, value);
+  }
+
+  private detect() {
+    if (!this._adapter) {
+      this._adapter = this.firstAvailable();
+    }
+    return this._adapter;
+  }
+
+  private async firstAvailable(): Promise<StorageAdapter> {
+    const candidates: [StorageBackend, () => Promise<StorageAdapter | null>][] =
+      [
+        ["localStorage", async () => localStorageAdapter()],
+        ["indexedDB", indexedDbAdapter],
+        ["cookie", async () => cookieAdapter()],
+      ];
+    for (const [backend, create] of candidates) {
+      let adapter: StorageAdapter | null = null;
+      try {
+        adapter = await create();
+      } catch {
+        // not available, try the next one
+      }
+      if (adapter) {
+        this._backend = backend;
+        this.onDetected(backend);
+        return adapter;
+      }
+    }
+    this._backend = "memory";
+    this.onDetected("memory");
+    return memoryAdapter();
+  }
+}
+
+function localStorageAdapter(): StorageAdapter | null {
+  const storage = window.localStorage;
+  storage.setItem(PROBE_KEY, "1");
+  storage.removeItem(PROBE_KEY);
+  return {
+    getItem: async (key) => storage.getItem(key),
+    setItem: async (key, value) => storage.setItem(key, value),
+  };
+}
+
+async function indexedDbAdapter(): Promise<StorageAdapter | null> {
+  if (typeof indexedDB === "undefined") return null;
+
+  const database = await new Promise<IDBDatabase | null>((resolve) => {
+    // Some browsers never answer in private mode
+    const timeout = setTimeout(() => resolve(null), INDEXED_DB_TIMEOUT);
+    const done = (result: IDBDatabase | null) => {
+      clearTimeout(timeout);
+      resolve(result);
+    };
+    try {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OBJECT_STORE);
+      };
+      request.onsuccess = () => done(request.result);
+      request.onerror = () => done(null);
+      request.onblocked = () => done(null);
+    } catch {
+      done(null);
+    }
+  });
+  if (!database) return null;
+
+  const run = <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ) =>
+    new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(OBJECT_STORE, mode);
+      const request = operation(transaction.objectStore(OBJECT_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+
+  // Writes can still fail, e.g. when the quota is exhausted
+  await run("readwrite", (store) => store.put("1", PROBE_KEY));
+  return {
+    getItem: async (key) => {
+      const value = await run("readonly", (store) => store.get(key));
+      return typeof value === "string" ? value : null;
+    },
+    setItem: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+  };
+}
+
+function cookieAdapter(): StorageAdapter | null {
+  if (typeof document === "undefined") return null;
+  writeCookie(PROBE_KEY, "1");
+  if (readCookie(PROBE_KEY) !== "1") return null;
+  writeCookie(PROBE_KEY, "", { maxAge: 0 });
+
+  const memory = memoryAdapter();
+  return {
+    getItem: async (key) =>
+      COOKIE_KEYS.indexOf(key) >= 0 ? readCookie(key) : memory.getItem(key),
+    setItem: async (key, value) => {
+      if (COOKIE_KEYS.indexOf(key) >= 0) {
+        writeCookie(key, value);
+      } else {
+        await memory.setItem(key, value);
+      }
+    },
+  };
+}
+
+function memoryAdapter(): StorageAdapter {
+  const items: Record<string, string> = {};
+  return {
+    getItem: async (key) => items[key] ?? null,
+    setItem: async (key, value) => {
+      items[key] = value;
+    },
+  };
+}
+
+export interface CookieOptions {
+  /** Parent domain to share the cookie with, e.g. ".example.com" */
+  domain?: string;
+  /** Lifetime in seconds (default one year), 0 deletes the cookie */
+  maxAge?: number;
+}
+
+/**
+ * Read a first-party cookie
+ * @returns The decoded value, or null if the cookie isn't set
+ */
+export function readCookie(name: string): string | null {
+  const prefix = `${encodeURIComponent(name)}=`;
+  for (const part of document.cookie.split(";")) {
+    const cookie = part.trim();
+    if (cookie.startsWith(prefix)) {
+      try {
+        return decodeURIComponent(cookie.slice(prefix.length));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Write a first-party cookie for all paths
+ */
+export function writeCookie(
+  name: string,
+  value: string,
+  options: CookieOptions = {}
+) {
+  let cookie = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
+  cookie += `; path=/; max-age=${options.maxAge ?? COOKIE_MAX_AGE}`;
+  if (options.domain) cookie += `; domain=${options.domain}`;
+  cookie += "; SameSite=Lax";
+  if (typeof location !== "undefined" && location.protocol === "https:") {
+    cookie += "; Secure";
+  }
+  document.cookie = cookie;
+}
@@ -0,0 +1,222 @@
+import type { ConsentState, EventTask } from "./abstract";
+
+const LOCK_NAME = "tools.quanta.leader";
+const CHANNEL_NAME = "tools.quanta";
+const LEADER_KEY = "tools.quanta.leader";
+const MESSAGE_KEY = "tools.quanta.handoff";
+const HEARTBEAT_INTERVAL = 2000;
+const HEARTBEAT_TIMEOUT = 5000;
+const CLAIM_DELAY = 100;
+
+export type TabRole = "unknown" | "leader" | "follower";
+
+type TabMessage =
+  | { type: "events"; from: string; tasks: EventTask[] }
+  | { type: "consent"; from: string; consent: ConsentState };
+
+/**
+ * Elects one tab as the leader that owns the persisted event queue. Other
+ * tabs hand their events to the leader instead of writing the queue.
+ *
+ * Uses Web Locks when available, and a localStorage heartbeat otherwise.
+ * Events and consent changes are sent over BroadcastChannel, falling back
+ * to storage events.
+ */
+export class TabCoordinator {
+  private _role: TabRole = "unknown";
+  private _tabId = Math.random().toString(36).slice(2);
+  private _channel: BroadcastChannel | null = null;
+  private _started: Promise<void> | null = null;
+  private _decided = () => {};
+
+  constructor(
+    private onPromoted: () => void,
+    private onEvents: (tasks: EventTask[]) => void,
+    private onConsent: (consent: ConsentState) => void
+  ) {}
+
+  get role(): TabRole {
+    return this._role;
+  }
+
+  /**
+   * Start the election
+   * @returns A promise that resolves once this tab knows its role
+   */
+  start(): Promise<void> {
+    if (this._started) return this._started;
+    this._started = new Promise<void>((resolve) => {
+      this._decided = resolve;
+    });
+
+    this.listen();
+    if (this.supportsLocks() && this._channel) {
+      this.electWithLocks();
+    } else if (this.supportsStorage()) {
+      this.electWithHeartbeat();
+    } else {
+      // Nothing to coordinate with
+      this.setRole("leader");
+    }
+    return this._started;
+  }
+
+  /**
+   * Send events to the leader tab
+   * @returns Whether the events were handed off
+   */
+  handOff(tasks: EventTask[]): boolean {
+    if (this._role !== "follower") return false;
+    return this.post({ type: "events", from: this._tabId, tasks });
+  }
+
+  /**
+   * Tell the other tabs that the user changed their consent
+   */
+  shareConsent(consent: ConsentState) {
+    this.post({ type: "consent", from: this._tabId, consent });
+  }
+
+  private post(message: TabMessage): boolean {
+    try {
+      if (this._channel) {
+        this._channel.postMessage(message);
+      } else {
+        localStorage.setItem(MESSAGE_KEY, JSON.stringify(message));
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private setRole(role: TabRole) {
+    const previous = this._role;
+    this._role = role;
+    if (previous === "unknown") {
+      this._decided();
+    } else if (role === "leader" && previous !== "leader") {
+      this.onPromoted();
+    }
+  }
+
+  private receive(message: TabMessage | null) {
+    if (!message || message.from === this._tabId) return;
+    if (message.type === "consent") {
+      this.onConsent(message.consent);
+    } else if (message.type === "events" && this._role === "leader") {
+      this.onEvents(
+        message.tasks.map((task) => ({ ...task, time: new Date(task.time) }))
+      );
+    }
+  }
+
+  private listen() {
+    if (typeof BroadcastChannel !== "undefined") {
+      try {
+        this._channel = new BroadcastChannel(CHANNEL_NAME);
+        this._channel.onmessage = (e) => this.receive(e.data);
+        return;
+      } catch {
+        // fall back to storage events
+      }
+    }
+    window.addEventListener("storage", (e) => {
+      if (e.key !== MESSAGE_KEY || !e.newValue) return;
+      try {
+        this.receive(JSON.parse(e.newValue));
+      } catch {
+        // ignore malformed messages
+      }
+    });
+  }
+
+  private supportsLocks() {
+    return typeof navigator !== "undefined" && !!(navigator as any).locks;
+  }
+
+  private supportsStorage() {
+    try {
+      localStorage.getItem(LEADER_KEY);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private electWithLocks() {
+    // The lock is held for the lifetime of the tab
+    const hold = () => {
+      this.setRole("leader");
+      return new Promise<void>(() => {});
+    };
+    navigator.locks
+      .request(LOCK_NAME, { ifAvailable: true }, (lock) => {
+        if (lock) return hold();
+        this.setRole("follower");
+        // Wait in line until the current leader goes away
+        navigator.locks.request(LOCK_NAME, hold).catch(() => {});
+      })
+      .catch(() => this.setRole("leader"));
+  }
+
+  private electWithHeartbeat() {
+    const tick = () => {
+      if (this._role === "leader") {
+        // Throttled timers in background tabs can let another tab take over
+        const leader = this.readHeartbeat();
+        if (leader && leader.id !== this._tabId) {
+          this.setRole("follower");
+          return;
+        }
+        this.writeHeartbeat();
+        return;
+      }
+      const leader = this.readHeartbeat();
+      if (leader && Date.now() - leader.at < HEARTBEAT_TIMEOUT) {
+        this.setRole("follower");
+        return;
+      }
+
+      // Claim leadership, then check nobody else claimed it at the same time
+      this.writeHeartbeat();
+      setTimeout(() => {
+        const claimed = this.readHeartbeat();
+        this.setRole(claimed?.id === this._tabId ? "leader" : "follower");
+      }, CLAIM_DELAY);
+    };
+
+    tick();
+    setInterval(tick, HEARTBEAT_INTERVAL);
+
+    // Let another tab take over right away when the leader goes away
+    window.addEventListener("pagehide", () => {
+      if (this._role !== "leader") return;
+      try {
+        localStorage.setItem(LEADER_KEY, "");
+      } catch {
+        // nothing to clean up
+      }
+    });
+  }
+
+  private readHeartbeat(): { id: string; at: number } | null {
+    try {
+      const stored = localStorage.getItem(LEADER_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeHeartbeat() {
+    try {
+      localStorage.setItem(
+        LEADER_KEY,
+        JSON.stringify({ id: this._tabId, at: Date.now() })
+      );
+    } catch {
+      // storage unavailable, nothing to coordinate with
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import {
+  AbstractQuantaBase,
+  ArgValue,
+  DefaultEventMap,
+  EventMap,
+  EventTask,
+  QuantaConfig,
+} from "./abstract";
+import { TransportRequest, TransportResponse } from "./transport";
+
+const GROUP_SEPARATOR = "\u001D";
+const RECORD_SEPARATOR = "\u001E";
+const UNIT_SEPARATOR = "\u001F";
+
+/**
+ * An event as received by the ingress, decoded
+ */
+export interface CapturedEvent {
+  event: string;
+  revenue: number;
+  args: Record<string, string>;
+  time: Date;
+  userId: string;
+  /** A/B letters sent with the event */
+  abLetters: string;
+}
+
+/**
+ * Quanta instance for tests. Storage lives in memory, events are captured
+ * instead of sent, and the clock only moves when the test says so. Works
+ * with any test runner, failed expectations throw plain errors.
+ */
+export class QuantaTestHarness<
+  Events extends EventMap = DefaultEventMap
+> extends AbstractQuantaBase<Events> {
+  /** Requests the SDK sent, in order */
+  readonly requests: TransportRequest[] = [];
+  private _captured: CapturedEvent[] = [];
+  private _clock = Date.UTC(2025, 0, 1);
+  private _abResponse = "";
+
+  constructor() {
+    super();
+    this.configure({
+      transport: { send: (request) => this.capture(request) },
+    });
+  }
+
+  /**
+   * All captured events, optionally only those with a given name
+   */
+  events(name?: string): CapturedEvent[] {
+    return this._captured.filter((event) => !name || event.event === name);
+  }
+
+  /**
+   * Assert that an event was logged, with at least the given arguments
+   * @returns The first matching event
+   */
+  expectEvent(name: string, args: Record<string, ArgValue> = {}) {
+    const expected = this.formatArguments(args);
+    const match = this.events(name).find((event) =>
+      Object.keys(expected).every((key) => event.args[key] === expected[key])
+    );
+    if (!match) {
+      const logged = this._captured
+        .map((event) => `${event.event} ${JSON.stringify(event.args)}`)
+        .join("\n  ");
+      throw new Error(
+        `Expected event "${name}" with ${JSON.stringify(
+          expected
+        )}, logged:\n  ${logged || "(none)"}`
+      );
+    }
+    return match;
+  }
+
+  /**
+   * Assert that no event with the given name was logged
+   */
+  expectNoEvent(name: string) {
+    if (this.events(name).length > 0) {
+      throw new Error(`Expected no "${name}" event, but it was logged`);
+    }
+  }
+
+  /**
+   * Forget all captured events and requests
+   */
+  clearEvents() {
+    this._captured = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * Wait until all queued events were delivered
+   */
+  async flush() {
+    while (this._isProcessing || this._queue.length > 0) {
+      if (!this._isProcessing) await this.processQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  /**
+   * Move the clock forward, e.g. past the session timeout
+   */
+  advance(ms: number) {
+    this._clock += ms;
+  }
+
+  setTime(time: Date) {
+    this._clock = time.getTime();
+  }
+
+  /**
+   * Replace the experiments as if the ingress had sent them
+   * @param abJson Experiment JSON, e.g. `[{"name":["checkout"],"variants":[50,50]}]`
+   */
+  setAbJson(abJson: string) {
+    this.asyncStorage.setItem("tools.quanta.ab", abJson).catch(() => {});
+    super.setAbJson(abJson);
+  }
+
+  /**
+   * Experiment JSON returned with every ingress response, empty for none
+   */
+  respondWithAbJson(abJson: string) {
+    this._abResponse = abJson;
+  }
+
+  protected async enqueueEvent(event: EventTask) {
+    await super.enqueueEvent(event);
+    // Deliver right away, so events can be checked once logging returns
+    await this.flush();
+  }
+
+  protected now() {
+    return this._clock;
+  }
+
+  protected sleep(_ms: number) {
+    // Retries and pauses don't hold up tests
+    return Promise.resolve();
+  }
+
+  private async capture(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    if (request.body && /\/e[eb]\/$/.test(request.url)) {
+      for (const encoded of request.body.split(GROUP_SEPARATOR)) {
+        this._captured.push(decodeEvent(encoded));
+      }
+    }
+    const abResponse = this._abResponse;
+    return {
+      ok: true,
+      status: 200,
+      headers: { get: () => null },
+      text: async () => abResponse,
+    };
+  }
+
+  makeAsyncStorage() {
+    const items: Record<string, string> = {};
+    return {
+      name: "memory",
+      getItem: async (key: string) => items[key] ?? null,
+      setItem: async (key: string, value: string) => {
+        items[key] = value;
+      },
+    };
+  }
+  setupUrlChangeListeners() {}
+  async handleUrlChange() {}
+  async sendViewEvent() {}
+  parseScriptTagAttributes() {}
+  getAppIdFromScriptTag() {
+    return null;
+  }
+  isServerSide() {
+    return false;
+  }
+  systemLanguageProvider() {
+    return "en-US";
+  }
+  getBundleId() {
+    return "tools.quanta.test";
+  }
+  getVersion() {
+    return "1.0.0";
+  }
+  getDeviceInfo() {
+    return "Test";
+  }
+  getOSInfo() {
+    return "TestOS";
+  }
+  getDebugFlags() {
+    return 0;
+  }
+}
+
+/**
+ * Create and initialize a test harness
+ * @param config Configuration, the transport is always the capturing one
+ */
+export async function createTestQuanta<
+  Events extends EventMap = DefaultEventMap
+>(config: QuantaConfig = {}): Promise<QuantaTestHarness<Events>> {
+  const quanta = new QuantaTestHarness<Events>();
+  const { transport: _, ...rest } = config;
+  await quanta.initializeAsync("test", true, rest);
+  return quanta;
+}
+
+function decodeEvent(encoded: string): CapturedEvent {
+  const fields = encoded.split(RECORD_SEPARATOR);
+  const pairs = fields[4] ? fields[4].split(UNIT_SEPARATOR) : [];
+  const args: Record<string, string> = {};
+  for (let i = 0; i + 1 < pairs.length; i += 2) {
+    args[pairs[i]] = pairs[i + 1];
+  }
+  return {
+    event: fields[2],
+    revenue: parseFloat(fields[3]) || 0,
+    args,
+    time: new Date(parseInt(fields[1], 10) * 1000),
+    userId: fields[5],
+    // App ID, time, event, revenue, args and 8 user data fields come first
+    abLetters: fields[13] ?? "",
+  };
+}
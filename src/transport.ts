@@ -0,0 +1,53 @@
+export const DEFAULT_INGRESS_URL = "https://analytics-ingress.quanta.tools";
+export const DEFAULT_API_URL = "https://quanta.tools";
+
+/**
+ * A single HTTP request issued by the SDK
+ */
+export interface TransportRequest {
+  url: string;
+  method: "GET" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+  /** Let the request outlive the page, like fetch's keepalive option */
+  keepalive?: boolean;
+}
+
+/**
+ * The subset of a fetch Response the SDK relies on
+ */
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+/**
+ * Sends requests on behalf of the SDK. Pass a custom transport to route
+ * events through a first-party proxy or to capture them in tests.
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Default transport backed by the global fetch
+ */
+export const fetchTransport: Transport = {
+  send(request) {
+    return fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      keepalive: request.keepalive,
+    });
+  },
+};
+
+/**
+ * Removes trailing slashes so endpoints can be appended safely
+ */
+export function trimBaseUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}